@@ -2,10 +2,14 @@ import React, { useRef, useState, useCallback } from 'react';
 import {
   RGBCurve,
   RGBCurveRef,
+  CurvePresetPicker,
   CurveChangeData,
-  applyLUT,
+  applyLUTToImageData,
+  computeHistogram,
+  HistogramData,
   LUTData,
 } from 'rgb-curve';
+import { benchmarkLUT, BenchmarkResult } from './benchmark';
 
 const styles = {
   container: {
@@ -68,6 +72,7 @@ const styles = {
   },
   buttonGroup: {
     display: 'flex',
+    flexWrap: 'wrap' as const,
     gap: '8px',
     marginTop: '16px',
   },
@@ -140,6 +145,10 @@ function App() {
   const curveRef = useRef<RGBCurveRef>(null);
   const [curveData, setCurveData] = useState<CurveChangeData | null>(null);
   const [lut, setLut] = useState<LUTData | null>(null);
+  const [benchmark, setBenchmark] = useState<BenchmarkResult | null>(null);
+  const [histogram, setHistogram] = useState<HistogramData | null>(null);
+  const [drawMode, setDrawMode] = useState(false);
+  const [intensity, setIntensity] = useState(1);
   const originalCanvasRef = useRef<HTMLCanvasElement>(null);
   const processedCanvasRef = useRef<HTMLCanvasElement>(null);
 
@@ -163,6 +172,12 @@ function App() {
         ctx.fillRect(x, y, 1, 1);
       }
     }
+
+    setHistogram(
+      computeHistogram(
+        ctx.getImageData(0, 0, SAMPLE_IMAGE_SIZE, SAMPLE_IMAGE_SIZE)
+      )
+    );
   }, []);
 
   // Apply LUT to the sample image
@@ -181,15 +196,8 @@ function App() {
       SAMPLE_IMAGE_SIZE,
       SAMPLE_IMAGE_SIZE
     );
-    const data = imageData.data;
 
-    // Apply LUT to each pixel
-    for (let i = 0; i < data.length; i += 4) {
-      const [r, g, b] = applyLUT(data[i], data[i + 1], data[i + 2], lut);
-      data[i] = r;
-      data[i + 1] = g;
-      data[i + 2] = b;
-    }
+    applyLUTToImageData(imageData, lut);
 
     processedCtx.putImageData(imageData, 0, 0);
   }, [lut]);
@@ -215,6 +223,13 @@ function App() {
     curveRef.current?.reset();
   }, []);
 
+  const handleBenchmark = useCallback(() => {
+    const currentLut = curveRef.current?.getLUT();
+    if (currentLut) {
+      setBenchmark(benchmarkLUT(currentLut));
+    }
+  }, []);
+
   return (
     <div style={styles.container}>
       <header style={styles.header}>
@@ -232,7 +247,12 @@ function App() {
             width={320}
             height={320}
             onChange={handleChange}
-            showHistogram={false}
+            showHistogram={histogram !== null}
+            histogramData={histogram ?? undefined}
+            showInspector
+            showAllChannels
+            drawMode={drawMode}
+            intensity={intensity}
           />
 
           <div style={styles.buttonGroup}>
@@ -248,7 +268,90 @@ function App() {
             >
               Reset Master
             </button>
+            <button
+              style={{ ...styles.button, ...styles.secondaryButton }}
+              onClick={() => curveRef.current?.undo()}
+            >
+              Undo
+            </button>
+            <button
+              style={{ ...styles.button, ...styles.secondaryButton }}
+              onClick={() => curveRef.current?.redo()}
+            >
+              Redo
+            </button>
+            <button
+              style={{ ...styles.button, ...styles.secondaryButton }}
+              onClick={handleBenchmark}
+            >
+              Benchmark
+            </button>
+          </div>
+
+          <div style={styles.buttonGroup}>
+            <button
+              style={{
+                ...styles.button,
+                ...(drawMode ? styles.primaryButton : styles.secondaryButton),
+              }}
+              onClick={() => setDrawMode((on) => !on)}
+            >
+              Pencil
+            </button>
+            <button
+              style={{ ...styles.button, ...styles.secondaryButton }}
+              onClick={() => curveRef.current?.smooth()}
+            >
+              Smooth
+            </button>
+            <button
+              style={{ ...styles.button, ...styles.secondaryButton }}
+              onClick={() => {
+                try {
+                  curveRef.current?.convertToPoints();
+                } catch (error) {
+                  window.alert((error as Error).message);
+                }
+              }}
+            >
+              Convert to Points
+            </button>
           </div>
+
+          <label
+            style={{
+              ...styles.buttonGroup,
+              ...styles.imageLabel,
+              alignItems: 'center',
+            }}
+          >
+            Intensity
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={intensity}
+              onChange={(e) => setIntensity(Number(e.currentTarget.value))}
+            />
+            {Math.round(intensity * 100)}%
+          </label>
+
+          <div style={{ marginTop: '20px' }}>
+            <CurvePresetPicker curveRef={curveRef} allowSave />
+          </div>
+
+          {benchmark && (
+            <div style={styles.dataBox}>
+              <div style={styles.dataTitle}>
+                Benchmark ({(benchmark.pixels / 1e6).toFixed(1)} MP)
+              </div>
+              <div style={styles.dataContent}>
+                {`applyLUT loop:      ${benchmark.tupleMs.toFixed(1)} ms
+applyLUTToBuffer:   ${benchmark.bufferMs.toFixed(1)} ms`}
+              </div>
+            </div>
+          )}
         </div>
 
         <div style={styles.section}>
@@ -297,9 +400,24 @@ function App() {
             <strong>Drag</strong> a control point to adjust the curve
           </li>
           <li>
-            <strong>Double-click</strong> a control point to remove it
+            <strong>Double-click</strong> a control point to remove it (or{' '}
+            <strong>long-press</strong> it on a touch screen)
+          </li>
+          <li>
+            <strong>Shift/Cmd+click</strong> points or <strong>Shift+drag</strong> a box to
+            select several, then drag them together
+          </li>
+          <li>
+            Use the tabs, or click one of the faded curves, to switch between Master,
+            Red, Green, and Blue channels
+          </li>
+          <li>
+            <strong>Tab</strong> through points and use the <strong>arrow keys</strong> to
+            nudge them; <strong>Enter</strong> adds and <strong>Delete</strong> removes a point
+          </li>
+          <li>
+            <strong>Ctrl/Cmd+Z</strong> to undo, <strong>Ctrl/Cmd+Shift+Z</strong> to redo
           </li>
-          <li>Use the tabs to switch between Master, Red, Green, and Blue channels</li>
           <li>
             The live preview shows how your adjustments affect colors in real-time
           </li>
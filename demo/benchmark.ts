@@ -0,0 +1,45 @@
+import { applyLUT, applyLUTToBuffer, LUTData } from 'rgb-curve';
+
+export interface BenchmarkResult {
+  pixels: number;
+  tupleMs: number;
+  bufferMs: number;
+}
+
+/**
+ * Compare the per-pixel tuple-based applyLUT loop with applyLUTToBuffer
+ * on a random RGBA buffer
+ */
+export function benchmarkLUT(
+  lut: LUTData,
+  width = 2048,
+  height = 2048,
+  runs = 3
+): BenchmarkResult {
+  const source = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < source.length; i++) {
+    source[i] = (Math.random() * 256) | 0;
+  }
+
+  let tupleMs = Infinity;
+  let bufferMs = Infinity;
+
+  for (let run = 0; run < runs; run++) {
+    const tupleData = new Uint8ClampedArray(source);
+    let start = performance.now();
+    for (let i = 0; i < tupleData.length; i += 4) {
+      const [r, g, b] = applyLUT(tupleData[i], tupleData[i + 1], tupleData[i + 2], lut);
+      tupleData[i] = r;
+      tupleData[i + 1] = g;
+      tupleData[i + 2] = b;
+    }
+    tupleMs = Math.min(tupleMs, performance.now() - start);
+
+    const bufferData = new Uint8ClampedArray(source);
+    start = performance.now();
+    applyLUTToBuffer(bufferData, lut);
+    bufferMs = Math.min(bufferMs, performance.now() - start);
+  }
+
+  return { pixels: width * height, tupleMs, bufferMs };
+}
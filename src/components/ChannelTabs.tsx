@@ -1,11 +1,20 @@
-import { memo, useState, useCallback, CSSProperties } from 'react';
-import { Channel, TabsStyle } from '../types';
-import { CHANNELS, CHANNEL_INFO } from '../utils/curve';
-import { DEFAULT_STYLES, CHANNEL_COLORS } from '../utils/constants';
+import {
+  memo,
+  useState,
+  useCallback,
+  useRef,
+  CSSProperties,
+  KeyboardEvent,
+} from 'react';
+import { Channel, ChannelDefinition, TabsStyle } from '../types';
+import { DEFAULT_CHANNELS } from '../utils/curve';
+import { DEFAULT_STYLES } from '../utils/constants';
 
 interface ChannelTabsProps {
   activeChannel: Channel;
   onChange: (channel: Channel) => void;
+  /** Tabs to show, in order (default Master, Red, Green, Blue) */
+  channels?: ChannelDefinition[];
   style?: TabsStyle;
   disabled?: boolean;
 }
@@ -13,10 +22,13 @@ interface ChannelTabsProps {
 export const ChannelTabs = memo(function ChannelTabs({
   activeChannel,
   onChange,
+  channels = DEFAULT_CHANNELS,
   style,
   disabled = false,
 }: ChannelTabsProps) {
   const [hoveredChannel, setHoveredChannel] = useState<Channel | null>(null);
+  const [focusedChannel, setFocusedChannel] = useState<Channel | null>(null);
+  const tabRefs = useRef<Partial<Record<Channel, HTMLButtonElement | null>>>({});
 
   const mergedStyle = {
     ...DEFAULT_STYLES.tabs,
@@ -40,6 +52,7 @@ export const ChannelTabs = memo(function ChannelTabs({
     (channel: Channel): CSSProperties => {
       const isActive = channel === activeChannel;
       const isHovered = channel === hoveredChannel;
+      const isFocused = channel === focusedChannel;
       const tab = mergedStyle.tab!;
 
       return {
@@ -61,14 +74,14 @@ export const ChannelTabs = memo(function ChannelTabs({
         transition: 'all 0.15s ease',
         opacity: disabled ? 0.5 : 1,
         outline: 'none',
+        boxShadow: isFocused ? `0 0 0 2px ${tab.activeColor}` : 'none',
       };
     },
-    [activeChannel, hoveredChannel, mergedStyle.tab, disabled]
+    [activeChannel, hoveredChannel, focusedChannel, mergedStyle.tab, disabled]
   );
 
-  const getIndicatorStyle = (channel: Channel): CSSProperties => {
-    const color = CHANNEL_COLORS[channel];
-    const isActive = channel === activeChannel;
+  const getIndicatorStyle = ({ id, color }: ChannelDefinition): CSSProperties => {
+    const isActive = id === activeChannel;
 
     return {
       width: '8px',
@@ -89,21 +102,74 @@ export const ChannelTabs = memo(function ChannelTabs({
     [disabled, onChange]
   );
 
+  // Arrow keys / Home / End move between tabs and activate them
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLDivElement>) => {
+      if (disabled) return;
+
+      const count = channels.length;
+      const index = channels.findIndex(({ id }) => id === activeChannel);
+      let next: number;
+      switch (e.key) {
+        case 'ArrowRight':
+        case 'ArrowDown':
+          next = (index + 1) % count;
+          break;
+        case 'ArrowLeft':
+        case 'ArrowUp':
+          next = (index - 1 + count) % count;
+          break;
+        case 'Home':
+          next = 0;
+          break;
+        case 'End':
+          next = count - 1;
+          break;
+        default:
+          return;
+      }
+
+      e.preventDefault();
+      const channel = channels[next].id;
+      onChange(channel);
+      tabRefs.current[channel]?.focus();
+    },
+    [disabled, channels, activeChannel, onChange]
+  );
+
   return (
-    <div style={containerStyle} role="tablist">
-      {CHANNELS.map((channel) => (
+    <div
+      style={containerStyle}
+      role="tablist"
+      aria-label="Curve channel"
+      aria-orientation="horizontal"
+      onKeyDown={handleKeyDown}
+    >
+      {channels.map((definition) => (
         <button
-          key={channel}
+          key={definition.id}
+          ref={(el) => {
+            tabRefs.current[definition.id] = el;
+          }}
+          type="button"
           role="tab"
-          aria-selected={channel === activeChannel}
+          aria-selected={definition.id === activeChannel}
           aria-disabled={disabled}
-          style={getTabStyle(channel)}
-          onClick={() => handleClick(channel)}
-          onMouseEnter={() => setHoveredChannel(channel)}
+          tabIndex={definition.id === activeChannel ? 0 : -1}
+          style={getTabStyle(definition.id)}
+          onClick={() => handleClick(definition.id)}
+          onMouseEnter={() => setHoveredChannel(definition.id)}
           onMouseLeave={() => setHoveredChannel(null)}
+          onFocus={(e) => {
+            // Only show the ring for keyboard focus
+            if (e.currentTarget.matches(':focus-visible')) {
+              setFocusedChannel(definition.id);
+            }
+          }}
+          onBlur={() => setFocusedChannel(null)}
         >
-          <span style={getIndicatorStyle(channel)} />
-          <span>{CHANNEL_INFO[channel].label}</span>
+          <span style={getIndicatorStyle(definition)} aria-hidden="true" />
+          <span>{definition.label}</span>
         </button>
       ))}
     </div>
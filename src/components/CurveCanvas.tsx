@@ -2,8 +2,10 @@ import {
   useRef,
   useEffect,
   useCallback,
+  useState,
   memo,
   CSSProperties,
+  FocusEvent,
 } from 'react';
 import {
   CurvePoint,
@@ -12,31 +14,76 @@ import {
   CurveLineStyle,
   ControlPointStyle,
   HistogramStyle,
+  HistogramInput,
+  ChannelCurve,
+  CurveAxis,
+  Interpolation,
 } from '../types';
 import {
   sortPoints,
-  monotoneCubicInterpolation,
-  catmullRomInterpolation,
+  getPeriodicPoints,
+  getInterpolator,
+  getChannelDefinition,
 } from '../utils/curve';
-import { useCanvasInteraction } from '../hooks/useCanvasInteraction';
-import { DEFAULT_STYLES } from '../utils/constants';
+import { getChannelHistogram, isHistogramData } from '../utils/histogram';
+import {
+  useCanvasInteraction,
+  describePoint,
+  getEditableHandles,
+  SelectionBox,
+} from '../hooks/useCanvasInteraction';
+import { SECONDARY_BASELINE } from '../utils/hsl';
+import { sampleTable } from '../utils/pencil';
+import {
+  DEFAULT_STYLES,
+  INACTIVE_CURVE_OPACITY,
+  AXIS_BACKGROUND_OPACITY,
+} from '../utils/constants';
 
 interface CurveCanvasProps {
   width: number;
   height: number;
   points: CurvePoint[];
   channel: Channel;
+  /** Accessible channel name (defaults to the built-in label or the id) */
+  channelLabel?: string;
+  /**
+   * What the x-axis represents. Hue and luma curves get a gradient
+   * background and a flat baseline; hue curves wrap from 255 back to 0.
+   */
+  axis?: CurveAxis;
   gridStyle?: GridStyle;
   curveStyle?: CurveLineStyle;
   controlPointStyle?: ControlPointStyle;
   histogramStyle?: HistogramStyle;
-  histogramData?: Uint8Array;
+  histogramData?: HistogramInput;
   wrapperStyle?: CSSProperties;
   disabled?: boolean;
-  interpolation?: 'monotone' | 'catmullRom';
+  interpolation?: Interpolation;
+  roundCoordinates?: boolean;
+  /** Pencil tool: dragging draws the curve freehand */
+  drawMode?: boolean;
+  /** Pencil-drawn table, shown instead of the points and their curve */
+  table?: Uint8Array;
+  /** Called with the whole table while a pencil stroke is drawn */
+  onDrawTable?: (channel: Channel, table: Uint8Array) => void;
   onAddPoint: (channel: Channel, point: CurvePoint) => void;
   onRemovePoint: (channel: Channel, index: number) => void;
   onUpdatePoint: (channel: Channel, index: number, point: CurvePoint) => void;
+  onRemovePoints?: (channel: Channel, indices: number[]) => void;
+  onMovePoints?: (
+    channel: Channel,
+    indices: number[],
+    delta: CurvePoint
+  ) => CurvePoint | void;
+  selectedPointIndex?: number | null;
+  onSelectedPointIndexChange?: (index: number | null) => void;
+  /** Other channels' curves, drawn faded behind this one */
+  inactiveCurves?: ChannelCurve[];
+  /** Called when an inactive curve is clicked */
+  onSelectCurve?: (channel: Channel) => void;
+  onDragStart?: () => void;
+  onDragEnd?: () => void;
 }
 
 export const CurveCanvas = memo(function CurveCanvas({
@@ -44,6 +91,8 @@ export const CurveCanvas = memo(function CurveCanvas({
   height,
   points,
   channel,
+  channelLabel = getChannelDefinition(channel).label,
+  axis = 'value',
   gridStyle = DEFAULT_STYLES.grid,
   curveStyle,
   controlPointStyle = DEFAULT_STYLES.controlPoint,
@@ -52,29 +101,68 @@ export const CurveCanvas = memo(function CurveCanvas({
   wrapperStyle = DEFAULT_STYLES.canvasWrapper,
   disabled = false,
   interpolation = 'monotone',
+  roundCoordinates = true,
+  drawMode = false,
+  table,
+  onDrawTable,
   onAddPoint,
   onRemovePoint,
   onUpdatePoint,
+  onRemovePoints,
+  onMovePoints,
+  selectedPointIndex: externalSelectedIndex,
+  onSelectedPointIndexChange,
+  inactiveCurves,
+  onSelectCurve,
+  onDragStart,
+  onDragEnd,
 }: CurveCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const groupRef = useRef<HTMLDivElement>(null);
+  const pointRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [isFocused, setIsFocused] = useState(false);
+  const periodic = axis === 'hue';
 
   const {
     activePointIndex,
     hoveredPointIndex,
-    handleMouseDown,
-    handleMouseMove,
-    handleMouseUp,
-    handleMouseLeave,
+    handlePointerDown,
+    handlePointerMove,
+    handlePointerUp,
+    handlePointerCancel,
+    handlePointerLeave,
     handleDoubleClick,
+    handleContextMenu,
+    selectedPointIndex,
+    setSelectedPointIndex,
+    selectedIndices,
+    selectionBox,
+    hoveredCurve,
+    handleKeyDown,
+    announcement,
   } = useCanvasInteraction({
     points,
     channel,
     width,
     height,
     disabled,
+    roundCoordinates,
+    interpolation,
+    periodic,
+    drawMode,
+    table,
+    onDrawTable,
     onAddPoint,
     onRemovePoint,
     onUpdatePoint,
+    onRemovePoints,
+    onMovePoints,
+    selectedPointIndex: externalSelectedIndex,
+    onSelectedPointIndexChange,
+    inactiveCurves,
+    onSelectCurve,
+    onDragStart,
+    onDragEnd,
   });
 
   // Get device pixel ratio for sharp rendering
@@ -95,46 +183,112 @@ export const CurveCanvas = memo(function CurveCanvas({
     ctx.save();
     ctx.scale(dpr, dpr);
 
-    // Draw histogram if provided
-    if (histogramStyle?.show && histogramData) {
-      drawHistogram(ctx, histogramData, histogramStyle, width, height);
+    // Hue rainbow or luma gradient for secondary curves
+    if (axis !== 'value') {
+      drawAxisBackground(ctx, axis, width, height);
     }
 
-    // Draw grid
-    drawGrid(ctx, gridStyle, width, height);
+    // Draw histogram if provided (pixel values don't map onto a hue axis)
+    if (histogramStyle?.show && histogramData && axis !== 'hue') {
+      drawHistogram(ctx, histogramData, channel, histogramStyle, width, height);
+    }
 
-    // Draw curve
-    const interpolateFn =
-      interpolation === 'monotone'
-        ? monotoneCubicInterpolation
-        : catmullRomInterpolation;
-    drawCurve(ctx, points, curveStyle, width, height, interpolateFn);
+    // Draw grid
+    drawGrid(ctx, gridStyle, width, height, axis);
+
+    // Draw curve with the same interpolator the LUT is generated from
+    const interpolateFn = getInterpolator(interpolation);
+
+    // Inactive channels sit faded under the active curve
+    if (inactiveCurves) {
+      ctx.globalAlpha = INACTIVE_CURVE_OPACITY;
+      for (const curve of inactiveCurves) {
+        drawCurve(
+          ctx,
+          curve.points,
+          {
+            ...curve.style,
+            width: curve.channel === hoveredCurve ? 2 : 1.5,
+            shadowBlur: 0,
+          },
+          width,
+          height,
+          interpolateFn,
+          periodic,
+          curve.table
+        );
+      }
+      ctx.globalAlpha = 1;
+    }
 
-    // Draw control points
-    drawControlPoints(
+    drawCurve(
       ctx,
       points,
-      controlPointStyle,
+      curveStyle,
       width,
       height,
-      activePointIndex,
-      hoveredPointIndex
+      interpolateFn,
+      periodic,
+      table
     );
 
+    // A drawn table has no points or handles to show
+    if (!table) {
+      // Bezier handles of the selected point
+      if (interpolation === 'bezier' && selectedPointIndex !== null) {
+        drawBezierHandles(
+          ctx,
+          points,
+          selectedPointIndex,
+          controlPointStyle,
+          width,
+          height
+        );
+      }
+
+      // Draw control points
+      drawControlPoints(
+        ctx,
+        points,
+        controlPointStyle,
+        width,
+        height,
+        activePointIndex,
+        hoveredPointIndex,
+        isFocused ? selectedPointIndex : null,
+        selectedIndices
+      );
+    }
+
+    // Draw rubber-band selection
+    if (selectionBox) {
+      drawSelectionBox(ctx, selectionBox, controlPointStyle);
+    }
+
     ctx.restore();
   }, [
     width,
     height,
     dpr,
     points,
+    channel,
+    axis,
+    periodic,
     gridStyle,
     curveStyle,
     controlPointStyle,
     histogramStyle,
     histogramData,
     interpolation,
+    table,
     activePointIndex,
     hoveredPointIndex,
+    isFocused,
+    selectedPointIndex,
+    selectedIndices,
+    selectionBox,
+    inactiveCurves,
+    hoveredCurve,
   ]);
 
   // Redraw on changes
@@ -155,34 +309,141 @@ export const CurveCanvas = memo(function CurveCanvas({
     draw();
   }, [width, height, dpr, draw]);
 
+  // Keep keyboard focus on the selected point while the editor has focus
+  useEffect(() => {
+    if (selectedPointIndex === null) return;
+    const group = groupRef.current;
+    if (group && group.contains(document.activeElement)) {
+      pointRefs.current[selectedPointIndex]?.focus();
+    }
+  }, [selectedPointIndex, points]);
+
+  const handleFocus = useCallback(() => setIsFocused(true), []);
+
+  const handleBlur = useCallback((e: FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsFocused(false);
+    }
+  }, []);
+
+  // Drawn channels have no points for keyboard users to focus
+  const sortedPoints = table ? [] : sortPoints(points);
+  const hitSize = (controlPointStyle.radius ?? DEFAULT_STYLES.controlPoint.radius!) * 2;
+
   return (
-    <div style={wrapperStyle}>
+    <div
+      ref={groupRef}
+      style={wrapperStyle}
+      role="group"
+      aria-label={`${channelLabel} curve editor`}
+      aria-disabled={disabled}
+      tabIndex={disabled ? -1 : 0}
+      onKeyDown={handleKeyDown}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
+    >
       <canvas
         ref={canvasRef}
+        aria-hidden="true"
         style={{
           display: 'block',
+          // Keep touch drags from scrolling or zooming the page
+          touchAction: 'none',
           cursor: disabled
             ? 'not-allowed'
             : hoveredPointIndex !== null
             ? 'grab'
+            : hoveredCurve !== null
+            ? 'pointer'
             : 'crosshair',
         }}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseLeave}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
+        onLostPointerCapture={handlePointerCancel}
+        onPointerLeave={handlePointerLeave}
         onDoubleClick={handleDoubleClick}
+        onContextMenu={handleContextMenu}
       />
+
+      {/* Focusable sliders mirroring the control points for keyboard and screen readers */}
+      {sortedPoints.map((point, index) => (
+        <div
+          key={index}
+          ref={(el) => {
+            pointRefs.current[index] = el;
+          }}
+          role="slider"
+          tabIndex={disabled ? -1 : 0}
+          aria-label={`${channelLabel} point ${index + 1} of ${sortedPoints.length}`}
+          aria-valuemin={0}
+          aria-valuemax={255}
+          aria-valuenow={Math.round(point.y)}
+          aria-valuetext={describePoint(point)}
+          aria-disabled={disabled}
+          onFocus={() => setSelectedPointIndex(index)}
+          style={{
+            position: 'absolute',
+            left: (point.x / 255) * width - hitSize / 2,
+            top: (1 - point.y / 255) * height - hitSize / 2,
+            width: hitSize,
+            height: hitSize,
+            pointerEvents: 'none',
+            outline: 'none',
+          }}
+        />
+      ))}
+
+      <div aria-live="polite" aria-atomic="true" style={visuallyHiddenStyle}>
+        {announcement}
+      </div>
     </div>
   );
 });
 
+const visuallyHiddenStyle: CSSProperties = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  padding: 0,
+  margin: -1,
+  overflow: 'hidden',
+  clip: 'rect(0, 0, 0, 0)',
+  whiteSpace: 'nowrap',
+  border: 0,
+};
+
+// Helper function to draw the hue rainbow or luma gradient along the x-axis
+function drawAxisBackground(
+  ctx: CanvasRenderingContext2D,
+  axis: Exclude<CurveAxis, 'value'>,
+  width: number,
+  height: number
+) {
+  const gradient = ctx.createLinearGradient(0, 0, width, 0);
+  if (axis === 'hue') {
+    for (let hue = 0; hue <= 360; hue += 60) {
+      gradient.addColorStop(hue / 360, `hsl(${hue}, 100%, 50%)`);
+    }
+  } else {
+    gradient.addColorStop(0, '#000');
+    gradient.addColorStop(1, '#fff');
+  }
+
+  ctx.globalAlpha = AXIS_BACKGROUND_OPACITY;
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+  ctx.globalAlpha = 1;
+}
+
 // Helper function to draw the grid
 function drawGrid(
   ctx: CanvasRenderingContext2D,
   style: GridStyle,
   width: number,
-  height: number
+  height: number,
+  axis: CurveAxis
 ) {
   const { color, lineWidth, subdivisions, showDiagonal, diagonalColor } = {
     ...DEFAULT_STYLES.grid,
@@ -213,48 +474,141 @@ function drawGrid(
   // Draw border
   ctx.strokeRect(0.5, 0.5, width - 1, height - 1);
 
-  // Draw diagonal (baseline)
+  // Draw baseline: the diagonal, or a flat line for secondary curves
   if (showDiagonal) {
     ctx.strokeStyle = diagonalColor!;
     ctx.setLineDash([4, 4]);
     ctx.beginPath();
-    ctx.moveTo(0, height);
-    ctx.lineTo(width, 0);
+    if (axis === 'value') {
+      ctx.moveTo(0, height);
+      ctx.lineTo(width, 0);
+    } else {
+      const baselineY = height - (SECONDARY_BASELINE / 255) * height;
+      ctx.moveTo(0, baselineY);
+      ctx.lineTo(width, baselineY);
+    }
     ctx.stroke();
     ctx.setLineDash([]);
   }
 }
 
+// Scale a histogram count according to the histogram style
+function scaleHistogramCount(
+  count: number,
+  scale: HistogramStyle['scale']
+): number {
+  if (scale === 'log') return Math.log1p(count);
+  if (scale === 'sqrt') return Math.sqrt(count);
+  return count;
+}
+
 // Helper function to draw the histogram
 function drawHistogram(
   ctx: CanvasRenderingContext2D,
-  data: Uint8Array,
+  input: HistogramInput,
+  channel: Channel,
   style: HistogramStyle,
   width: number,
   height: number
 ) {
-  const { opacity, fillColor } = { ...DEFAULT_STYLES.histogram, ...style };
-
-  // Find max value for normalization
+  const {
+    opacity,
+    fillColor,
+    scale,
+    mode,
+    variant,
+    outlineWidth,
+    showClipping,
+    clippingColor,
+    channelColors,
+  } = { ...DEFAULT_STYLES.histogram, ...style };
+
+  // Overlaid RGB needs per-channel data
+  const layers: { data: Uint8Array | Uint32Array; color: string }[] =
+    mode === 'rgb' && isHistogramData(input)
+      ? [
+          { data: input.red, color: channelColors!.red },
+          { data: input.green, color: channelColors!.green },
+          { data: input.blue, color: channelColors!.blue },
+        ]
+      : [{ data: getChannelHistogram(input, channel), color: fillColor! }];
+
+  // Shared max so overlaid channels stay comparable. With clipping markers
+  // on, the end bins are left out so a clipped spike doesn't flatten the rest.
+  const first = showClipping ? 1 : 0;
+  const last = showClipping ? 254 : 255;
   let max = 0;
-  for (let i = 0; i < data.length; i++) {
-    if (data[i] > max) max = data[i];
+  for (const layer of layers) {
+    for (let i = first; i <= last; i++) {
+      const value = scaleHistogramCount(layer.data[i], scale);
+      if (value > max) max = value;
+    }
   }
 
   if (max === 0) return;
 
-  ctx.fillStyle = fillColor!;
-  ctx.globalAlpha = opacity!;
-
   const barWidth = width / 256;
+  const barHeight = (count: number) =>
+    Math.min(1, scaleHistogramCount(count, scale) / max) * height;
+
+  ctx.globalAlpha = opacity!;
+  if (layers.length > 1) {
+    // Additive blending: overlaps mix to yellow, cyan, magenta and white
+    ctx.globalCompositeOperation = 'lighter';
+  }
 
-  for (let i = 0; i < 256; i++) {
-    const barHeight = (data[i] / max) * height;
-    const x = i * barWidth;
-    ctx.fillRect(x, height - barHeight, barWidth, barHeight);
+  for (const { data, color } of layers) {
+    if (variant === 'outline') {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = outlineWidth!;
+      ctx.beginPath();
+      ctx.moveTo(0, height);
+      for (let i = 0; i < 256; i++) {
+        ctx.lineTo((i + 0.5) * barWidth, height - barHeight(data[i]));
+      }
+      ctx.lineTo(width, height);
+      ctx.stroke();
+    } else {
+      ctx.fillStyle = color;
+      for (let i = 0; i < 256; i++) {
+        const h = barHeight(data[i]);
+        ctx.fillRect(i * barWidth, height - h, barWidth, h);
+      }
+    }
   }
 
+  ctx.globalCompositeOperation = 'source-over';
   ctx.globalAlpha = 1;
+
+  if (showClipping) {
+    drawClippingMarker(ctx, layers, 0, clippingColor!, width);
+    drawClippingMarker(ctx, layers, 255, clippingColor!, width);
+  }
+}
+
+// Draw a triangle in the top corner when any layer has pixels in the end bin
+function drawClippingMarker(
+  ctx: CanvasRenderingContext2D,
+  layers: { data: Uint8Array | Uint32Array; color: string }[],
+  bin: 0 | 255,
+  defaultColor: string,
+  width: number
+) {
+  const clipped = layers.filter((layer) => layer.data[bin] > 0);
+  if (clipped.length === 0) return;
+
+  const size = 8;
+  const x = bin === 0 ? 2 : width - 2;
+  const dir = bin === 0 ? 1 : -1;
+
+  ctx.fillStyle =
+    layers.length > 1 && clipped.length === 1 ? clipped[0].color : defaultColor;
+  ctx.beginPath();
+  ctx.moveTo(x, 2);
+  ctx.lineTo(x + dir * size, 2);
+  ctx.lineTo(x, 2 + size);
+  ctx.closePath();
+  ctx.fill();
 }
 
 // Helper function to draw the curve
@@ -264,10 +618,13 @@ function drawCurve(
   style: CurveLineStyle | undefined,
   width: number,
   height: number,
-  interpolate: (points: CurvePoint[], x: number) => number
+  interpolate: (points: CurvePoint[], x: number) => number,
+  periodic: boolean,
+  table?: Uint8Array
 ) {
   const sorted = sortPoints(points);
-  if (sorted.length === 0) return;
+  if (sorted.length === 0 && !table) return;
+  const curve = periodic ? getPeriodicPoints(sorted) : sorted;
 
   const { color, width: lineWidth, shadowColor, shadowBlur } = {
     ...DEFAULT_STYLES.curve.master,
@@ -290,7 +647,9 @@ function drawCurve(
   // Draw curve by interpolating each x position
   for (let px = 0; px <= width; px++) {
     const curveX = (px / width) * 255;
-    const curveY = interpolate(sorted, curveX);
+    const curveY = table
+      ? sampleTable(table, curveX)
+      : interpolate(curve, curveX);
     const canvasY = height - (curveY / 255) * height;
 
     if (px === 0) {
@@ -315,7 +674,9 @@ function drawControlPoints(
   width: number,
   height: number,
   activeIndex: number | null,
-  hoveredIndex: number | null
+  hoveredIndex: number | null,
+  selectedIndex: number | null,
+  selectedIndices: number[]
 ) {
   const sorted = sortPoints(points);
   const {
@@ -351,5 +712,81 @@ function drawControlPoints(
     ctx.strokeStyle = isActive ? activeStroke! : stroke!;
     ctx.lineWidth = strokeWidth!;
     ctx.stroke();
+
+    // Ring for the keyboard-selected point and members of a multi-selection
+    const inGroup = selectedIndices.length > 1 && selectedIndices.includes(index);
+    if (index === selectedIndex || inGroup) {
+      ctx.beginPath();
+      ctx.arc(canvasX, canvasY, currentRadius + 3, 0, Math.PI * 2);
+      ctx.strokeStyle = activeFill!;
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
   });
 }
+
+// Helper function to draw the bezier handles of a point
+function drawBezierHandles(
+  ctx: CanvasRenderingContext2D,
+  points: CurvePoint[],
+  index: number,
+  style: ControlPointStyle,
+  width: number,
+  height: number
+) {
+  const sorted = sortPoints(points);
+  const point = sorted[index];
+  if (!point) return;
+
+  const { radius, activeFill, stroke } = {
+    ...DEFAULT_STYLES.controlPoint,
+    ...style,
+  };
+  const toCanvas = (x: number, y: number) => ({
+    x: (x / 255) * width,
+    y: height - (y / 255) * height,
+  });
+  const origin = toCanvas(point.x, point.y);
+
+  for (const { handle } of getEditableHandles(sorted, index)) {
+    const end = toCanvas(point.x + handle.x, point.y + handle.y);
+
+    ctx.strokeStyle = activeFill!;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(origin.x, origin.y);
+    ctx.lineTo(end.x, end.y);
+    ctx.stroke();
+
+    ctx.beginPath();
+    ctx.arc(end.x, end.y, radius! * 0.6, 0, Math.PI * 2);
+    ctx.fillStyle = activeFill!;
+    ctx.fill();
+    ctx.strokeStyle = stroke!;
+    ctx.stroke();
+  }
+}
+
+// Helper function to draw the rubber-band selection rectangle
+function drawSelectionBox(
+  ctx: CanvasRenderingContext2D,
+  box: SelectionBox,
+  style: ControlPointStyle
+) {
+  const { activeFill } = { ...DEFAULT_STYLES.controlPoint, ...style };
+  const x = Math.min(box.x0, box.x1);
+  const y = Math.min(box.y0, box.y1);
+  const w = Math.abs(box.x1 - box.x0);
+  const h = Math.abs(box.y1 - box.y0);
+
+  ctx.fillStyle = activeFill!;
+  ctx.globalAlpha = 0.1;
+  ctx.fillRect(x, y, w, h);
+  ctx.globalAlpha = 1;
+
+  ctx.strokeStyle = activeFill!;
+  ctx.lineWidth = 1;
+  ctx.setLineDash([4, 4]);
+  ctx.strokeRect(x + 0.5, y + 0.5, w, h);
+  ctx.setLineDash([]);
+}
@@ -0,0 +1,57 @@
+import { memo, useId, useMemo, CSSProperties } from 'react';
+import { CurveFilterProps } from '../types';
+import { getSVGFilterTables, getSVGFilterURL } from '../utils/svgFilter';
+import { DEFAULT_CHANNELS } from '../utils/curve';
+
+const hiddenSvgStyle: CSSProperties = {
+  position: 'absolute',
+  width: 0,
+  height: 0,
+  overflow: 'hidden',
+  pointerEvents: 'none',
+};
+
+export const CurveFilter = memo(function CurveFilter({
+  lut,
+  channels = DEFAULT_CHANNELS,
+  children,
+  id,
+  style,
+  className,
+}: CurveFilterProps) {
+  const reactId = useId();
+  // useId output contains ':' which would need escaping inside url()
+  const filterId = id ?? `rgb-curve-filter-${reactId.replace(/[^a-zA-Z0-9_-]/g, '')}`;
+
+  const tables = useMemo(
+    () => getSVGFilterTables(lut, channels),
+    [lut, channels]
+  );
+
+  const wrapperStyle: CSSProperties = {
+    ...style,
+    filter: getSVGFilterURL(filterId),
+  };
+
+  return (
+    <>
+      <svg style={hiddenSvgStyle} aria-hidden="true" focusable="false">
+        <defs>
+          <filter id={filterId} colorInterpolationFilters="sRGB">
+            <feComponentTransfer>
+              <feFuncR type="table" tableValues={tables.red} />
+              <feFuncG type="table" tableValues={tables.green} />
+              <feFuncB type="table" tableValues={tables.blue} />
+              {tables.alpha && (
+                <feFuncA type="table" tableValues={tables.alpha} />
+              )}
+            </feComponentTransfer>
+          </filter>
+        </defs>
+      </svg>
+      <div style={wrapperStyle} className={className}>
+        {children}
+      </div>
+    </>
+  );
+});
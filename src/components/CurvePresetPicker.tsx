@@ -0,0 +1,337 @@
+import {
+  memo,
+  useMemo,
+  useState,
+  useId,
+  useSyncExternalStore,
+  CSSProperties,
+  FormEvent,
+} from 'react';
+import { CurvePreset, CurvePresetPickerProps, Interpolation } from '../types';
+import { generateChannelLUT, getChannelDefinition } from '../utils/curve';
+import { getCurveAxis } from '../utils/hsl';
+import {
+  getPresets,
+  isBuiltInPreset,
+  subscribePresets,
+  unregisterPreset,
+} from '../utils/presets';
+import {
+  DEFAULT_PRESET_PICKER_STYLE,
+  CUSTOM_PRESET_CATEGORY,
+} from '../utils/constants';
+
+const getAllPresets = () => getPresets();
+
+/**
+ * Polyline through a channel's LUT, in a size x size box
+ */
+function getPreviewPath(table: ArrayLike<number>, size: number): string {
+  const coords: string[] = [];
+  for (let i = 0; i <= 255; i += 5) {
+    coords.push(`${(i / 255) * size},${size - (table[i] / 255) * size}`);
+  }
+  coords.push(`${size},${size - (table[255] / 255) * size}`);
+  return coords.join(' ');
+}
+
+const PresetPreview = memo(function PresetPreview({
+  preset,
+  interpolation,
+  size,
+  background,
+}: {
+  preset: CurvePreset;
+  interpolation: Interpolation;
+  size: number;
+  background: string;
+}) {
+  const curves = useMemo(
+    () =>
+      Object.entries(preset.points).map(([channel, points]) => {
+        const { color, apply } = getChannelDefinition(channel);
+        const table = generateChannelLUT(points ?? [], interpolation, {
+          periodic: getCurveAxis(apply) === 'hue',
+        });
+        return { channel, color, path: getPreviewPath(table, size) };
+      }),
+    [preset, interpolation, size]
+  );
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${size} ${size}`}
+      aria-hidden="true"
+      focusable="false"
+      style={{ flexShrink: 0, backgroundColor: background, borderRadius: 4 }}
+    >
+      <line
+        x1={0}
+        y1={size}
+        x2={size}
+        y2={0}
+        stroke="#333333"
+        strokeDasharray="2 2"
+      />
+      {curves.map(({ channel, color, path }) => (
+        <polyline
+          key={channel}
+          points={path}
+          fill="none"
+          stroke={color}
+          strokeWidth={1.5}
+        />
+      ))}
+    </svg>
+  );
+});
+
+export const CurvePresetPicker = memo(function CurvePresetPicker({
+  curveRef,
+  onSelect,
+  categories,
+  allowSave = false,
+  interpolation = 'monotone',
+  previewSize = 48,
+  style,
+  disabled = false,
+}: CurvePresetPickerProps) {
+  const mergedStyle = { ...DEFAULT_PRESET_PICKER_STYLE, ...style };
+  const idPrefix = useId();
+  const presets = useSyncExternalStore(
+    subscribePresets,
+    getAllPresets,
+    getAllPresets
+  );
+  const [activeName, setActiveName] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [draftCategory, setDraftCategory] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Categories in the requested order, or the order presets appear in
+  const groups = useMemo(() => {
+    const order =
+      categories ??
+      Array.from(
+        new Set(presets.map((p) => p.category ?? CUSTOM_PRESET_CATEGORY))
+      );
+    return order
+      .map((category) => ({
+        category,
+        presets: presets.filter(
+          (p) => (p.category ?? CUSTOM_PRESET_CATEGORY) === category
+        ),
+      }))
+      .filter((group) => group.presets.length > 0);
+  }, [presets, categories]);
+
+  const handleSelect = (preset: CurvePreset) => {
+    curveRef?.current?.applyPreset(preset);
+    setActiveName(preset.name);
+    onSelect?.(preset);
+  };
+
+  const handleRemove = (name: string) => {
+    unregisterPreset(name);
+    if (activeName === name) setActiveName(null);
+  };
+
+  const handleSave = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const editor = curveRef?.current;
+    if (!editor) return;
+
+    try {
+      const saved = editor.savePreset(draftName, draftCategory || undefined);
+      setActiveName(saved.name);
+      setDraftName('');
+      setSaveError(null);
+    } catch (error) {
+      setSaveError((error as Error).message);
+    }
+  };
+
+  const containerStyle: CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: mergedStyle.gap,
+    padding: '8px',
+    backgroundColor: mergedStyle.background,
+    borderRadius: mergedStyle.borderRadius,
+    fontSize: mergedStyle.fontSize,
+    color: mergedStyle.labelColor,
+  };
+
+  const categoryStyle: CSSProperties = {
+    margin: '4px 0',
+    fontSize: mergedStyle.fontSize,
+    fontWeight: 600,
+    color: mergedStyle.categoryColor,
+  };
+
+  const listStyle: CSSProperties = {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: mergedStyle.gap,
+    margin: 0,
+    padding: 0,
+    listStyle: 'none',
+  };
+
+  const getItemStyle = (active: boolean): CSSProperties => ({
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    gap: '4px',
+    padding: '6px',
+    fontSize: mergedStyle.fontSize,
+    color: mergedStyle.labelColor,
+    backgroundColor: active
+      ? mergedStyle.activeItemBackground
+      : mergedStyle.itemBackground,
+    border: 'none',
+    borderRadius: '6px',
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    opacity: disabled ? 0.5 : 1,
+  });
+
+  const removeStyle: CSSProperties = {
+    position: 'absolute',
+    top: 2,
+    right: 2,
+    width: 16,
+    height: 16,
+    padding: 0,
+    lineHeight: '16px',
+    fontSize: 10,
+    color: mergedStyle.buttonColor,
+    backgroundColor: mergedStyle.buttonBackground,
+    border: 'none',
+    borderRadius: '50%',
+    cursor: 'pointer',
+  };
+
+  const inputStyle: CSSProperties = {
+    width: '110px',
+    padding: '4px 6px',
+    fontSize: mergedStyle.fontSize,
+    color: mergedStyle.inputColor,
+    backgroundColor: mergedStyle.inputBackground,
+    border: `1px solid ${mergedStyle.inputBorder}`,
+    borderRadius: '4px',
+  };
+
+  const canSave = !disabled && Boolean(curveRef) && draftName.trim() !== '';
+
+  const buttonStyle: CSSProperties = {
+    padding: '5px 10px',
+    fontSize: mergedStyle.fontSize,
+    color: mergedStyle.buttonColor,
+    backgroundColor: mergedStyle.buttonBackground,
+    border: 'none',
+    borderRadius: '4px',
+    cursor: canSave ? 'pointer' : 'not-allowed',
+    opacity: canSave ? 1 : 0.5,
+  };
+
+  return (
+    <div style={containerStyle} role="group" aria-label="Curve presets">
+      {groups.map(({ category, presets: groupPresets }, groupIndex) => {
+        const headingId = `${idPrefix}-category-${groupIndex}`;
+        return (
+          <section key={category} aria-labelledby={headingId}>
+            <h3 id={headingId} style={categoryStyle}>
+              {category}
+            </h3>
+            <ul style={listStyle}>
+              {groupPresets.map((preset) => {
+                const removable = allowSave && !isBuiltInPreset(preset.name);
+                return (
+                  <li key={preset.name} style={{ position: 'relative' }}>
+                    <button
+                      type="button"
+                      style={getItemStyle(preset.name === activeName)}
+                      aria-pressed={preset.name === activeName}
+                      disabled={disabled}
+                      onClick={() => handleSelect(preset)}
+                    >
+                      <PresetPreview
+                        preset={preset}
+                        interpolation={interpolation}
+                        size={previewSize}
+                        background={mergedStyle.previewBackground}
+                      />
+                      {preset.name}
+                    </button>
+                    {removable && (
+                      <button
+                        type="button"
+                        style={removeStyle}
+                        aria-label={`Remove ${preset.name} preset`}
+                        disabled={disabled}
+                        onClick={() => handleRemove(preset.name)}
+                      >
+                        ×
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        );
+      })}
+
+      {allowSave && (
+        <form
+          style={{
+            display: 'flex',
+            flexWrap: 'wrap',
+            alignItems: 'flex-end',
+            gap: mergedStyle.gap,
+          }}
+          onSubmit={handleSave}
+        >
+          <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+            Name
+            <input
+              style={inputStyle}
+              value={draftName}
+              disabled={disabled}
+              onChange={(e) => {
+                setDraftName(e.currentTarget.value);
+                setSaveError(null);
+              }}
+            />
+          </label>
+          <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+            Category
+            <input
+              style={inputStyle}
+              value={draftCategory}
+              placeholder={CUSTOM_PRESET_CATEGORY}
+              list={`${idPrefix}-categories`}
+              disabled={disabled}
+              onChange={(e) => setDraftCategory(e.currentTarget.value)}
+            />
+          </label>
+          <datalist id={`${idPrefix}-categories`}>
+            {groups.map(({ category }) => (
+              <option key={category} value={category} />
+            ))}
+          </datalist>
+          <button type="submit" style={buttonStyle} disabled={!canSave}>
+            Save preset
+          </button>
+          {saveError && (
+            <span role="alert" style={{ width: '100%' }}>
+              {saveError}
+            </span>
+          )}
+        </form>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,278 @@
+import {
+  memo,
+  useState,
+  useEffect,
+  useCallback,
+  useId,
+  CSSProperties,
+  KeyboardEvent,
+} from 'react';
+import { CurveAxis, CurvePoint, PointInspectorProps } from '../types';
+import {
+  sortPoints,
+  clamp,
+  getInsertionPoint,
+  getChannelDefinition,
+} from '../utils/curve';
+import { DEFAULT_STYLES, MIN_POINT_DISTANCE } from '../utils/constants';
+
+type Field = 'x' | 'y';
+
+type Drafts = Partial<Record<Field, string>>;
+
+const INPUT_LABELS: Record<CurveAxis, string> = {
+  value: 'Input',
+  hue: 'Hue',
+  luma: 'Luma',
+};
+
+/**
+ * Allowed 0-255 range for a field of the point at index
+ */
+function getFieldRange(
+  sorted: CurvePoint[],
+  index: number,
+  field: Field
+): [number, number] {
+  if (field === 'y') return [0, 255];
+  if (index === 0) return [0, 0];
+  if (index === sorted.length - 1) return [255, 255];
+  return [
+    sorted[index - 1].x + MIN_POINT_DISTANCE,
+    sorted[index + 1].x - MIN_POINT_DISTANCE,
+  ];
+}
+
+export const PointInspector = memo(function PointInspector({
+  points,
+  channel,
+  channelLabel = getChannelDefinition(channel).label,
+  selectedIndex,
+  onSelectedIndexChange,
+  onAddPoint,
+  onRemovePoint,
+  onUpdatePoint,
+  interpolation = 'monotone',
+  axis = 'value',
+  coordinateMode = 'byte',
+  style,
+  disabled = false,
+}: PointInspectorProps) {
+  const normalized = coordinateMode === 'normalized';
+  const mergedStyle = { ...DEFAULT_STYLES.inspector, ...style };
+  const idPrefix = useId();
+  const fieldLabels: Record<Field, string> = {
+    x: INPUT_LABELS[axis],
+    y: 'Output',
+  };
+
+  const sorted = sortPoints(points);
+  const index =
+    selectedIndex !== null && selectedIndex < sorted.length
+      ? selectedIndex
+      : null;
+  const point = index !== null ? sorted[index] : null;
+  const isEndpoint = index === 0 || index === sorted.length - 1;
+
+  // Text being typed; fields without a draft show the point's value
+  const [drafts, setDrafts] = useState<Drafts>({});
+  const [errors, setErrors] = useState<Drafts>({});
+
+  // Drop edits when the point changes underneath (drag, undo, new selection)
+  useEffect(() => {
+    setDrafts({});
+    setErrors({});
+  }, [channel, index, point?.x, point?.y]);
+
+  const toDisplay = useCallback(
+    (value: number) =>
+      normalized ? String(Number((value / 255).toFixed(3))) : String(value),
+    [normalized]
+  );
+
+  const formatRange = (min: number, max: number) =>
+    `${toDisplay(min)} and ${toDisplay(max)}`;
+
+  // Parse and validate a draft, returning the 0-255 value or an error
+  const parseField = (
+    field: Field,
+    text: string
+  ): { value: number } | { error: string } => {
+    const parsed = Number(text.trim());
+    if (text.trim() === '' || !Number.isFinite(parsed)) {
+      return { error: `${fieldLabels[field]} must be a number` };
+    }
+
+    const value = normalized ? parsed * 255 : Math.round(parsed);
+    const [min, max] = getFieldRange(sorted, index!, field);
+    // Allow for rounding in the displayed normalized bounds
+    const epsilon = normalized ? 0.5 : 0;
+    if (value < min - epsilon || value > max + epsilon) {
+      return {
+        error: `${fieldLabels[field]} must be between ${formatRange(min, max)}`,
+      };
+    }
+
+    return { value: clamp(value, min, max) };
+  };
+
+  const commitField = (field: Field) => {
+    const text = drafts[field];
+    if (text === undefined || point === null || index === null) return;
+
+    const result = parseField(field, text);
+    if ('error' in result) {
+      setErrors((prev) => ({ ...prev, [field]: result.error }));
+      return;
+    }
+
+    setDrafts((prev) => ({ ...prev, [field]: undefined }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+    if (result.value !== point[field]) {
+      onUpdatePoint(channel, index, { ...point, [field]: result.value });
+    }
+  };
+
+  const handleFieldKeyDown = (
+    field: Field,
+    e: KeyboardEvent<HTMLInputElement>
+  ) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitField(field);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setDrafts((prev) => ({ ...prev, [field]: undefined }));
+      setErrors((prev) => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const insertion = disabled
+    ? null
+    : getInsertionPoint(sorted, index, interpolation, axis === 'hue');
+
+  const handleAdd = () => {
+    if (!insertion) return;
+    onAddPoint(channel, insertion.point);
+    onSelectedIndexChange?.(insertion.index);
+  };
+
+  const handleDelete = () => {
+    if (index === null || isEndpoint) return;
+    onRemovePoint(channel, index);
+    onSelectedIndexChange?.(index - 1);
+  };
+
+  const containerStyle: CSSProperties = {
+    display: 'flex',
+    alignItems: 'flex-start',
+    flexWrap: 'wrap',
+    gap: mergedStyle.gap,
+    padding: '8px',
+    backgroundColor: mergedStyle.background,
+    borderRadius: mergedStyle.borderRadius,
+    fontSize: mergedStyle.fontSize,
+    color: mergedStyle.labelColor,
+  };
+
+  const fieldStyle: CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+  };
+
+  const getInputStyle = (field: Field): CSSProperties => ({
+    width: '64px',
+    padding: '4px 6px',
+    fontSize: mergedStyle.fontSize,
+    color: mergedStyle.inputColor,
+    backgroundColor: mergedStyle.inputBackground,
+    border: `1px solid ${
+      errors[field] ? mergedStyle.errorColor : mergedStyle.inputBorder
+    }`,
+    borderRadius: '4px',
+  });
+
+  const buttonStyle = (enabled: boolean): CSSProperties => ({
+    alignSelf: 'flex-end',
+    padding: '5px 10px',
+    fontSize: mergedStyle.fontSize,
+    color: mergedStyle.buttonColor,
+    backgroundColor: mergedStyle.buttonBackground,
+    border: 'none',
+    borderRadius: '4px',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+    opacity: enabled ? 1 : 0.5,
+  });
+
+  const errorStyle: CSSProperties = {
+    maxWidth: '140px',
+    color: mergedStyle.errorColor,
+  };
+
+  const renderField = (field: Field) => {
+    const inputId = `${idPrefix}-${field}`;
+    const errorId = `${inputId}-error`;
+    const fixed = field === 'x' && isEndpoint;
+
+    return (
+      <div style={fieldStyle}>
+        <label htmlFor={inputId}>{fieldLabels[field]}</label>
+        <input
+          id={inputId}
+          type="number"
+          inputMode="decimal"
+          min={0}
+          max={normalized ? 1 : 255}
+          step={normalized ? 0.001 : 1}
+          value={drafts[field] ?? (point ? toDisplay(point[field]) : '')}
+          disabled={disabled || point === null || fixed}
+          title={fixed ? 'End points keep their input value' : undefined}
+          aria-invalid={errors[field] ? true : undefined}
+          aria-describedby={errors[field] ? errorId : undefined}
+          style={getInputStyle(field)}
+          onChange={(e) => {
+            const value = e.currentTarget.value;
+            setDrafts((prev) => ({ ...prev, [field]: value }));
+          }}
+          onBlur={() => commitField(field)}
+          onKeyDown={(e) => handleFieldKeyDown(field, e)}
+        />
+        {errors[field] && (
+          <span id={errorId} role="alert" style={errorStyle}>
+            {errors[field]}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  const canDelete = !disabled && index !== null && !isEndpoint;
+
+  return (
+    <div
+      style={containerStyle}
+      role="group"
+      aria-label={`${channelLabel} point inspector`}
+    >
+      {renderField('x')}
+      {renderField('y')}
+      <button
+        type="button"
+        style={buttonStyle(insertion !== null)}
+        disabled={insertion === null}
+        onClick={handleAdd}
+      >
+        Add point
+      </button>
+      <button
+        type="button"
+        style={buttonStyle(canDelete)}
+        disabled={!canDelete}
+        onClick={handleDelete}
+      >
+        Delete point
+      </button>
+    </div>
+  );
+});
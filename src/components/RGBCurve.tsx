@@ -5,6 +5,7 @@ import {
   forwardRef,
   useImperativeHandle,
   CSSProperties,
+  KeyboardEvent,
 } from 'react';
 import {
   RGBCurveProps,
@@ -12,12 +13,59 @@ import {
   Channel,
   CurveChangeData,
   ChannelPoints,
+  CurvePoint,
+  ChannelCurve,
+  CurveLineStyle,
+  ChannelTables,
+  CurvePreset,
   LUTData,
 } from '../types';
 import { CurveCanvas } from './CurveCanvas';
 import { ChannelTabs } from './ChannelTabs';
+import { PointInspector } from './PointInspector';
 import { useCurvePoints } from '../hooks/useCurvePoints';
-import { DEFAULT_WIDTH, DEFAULT_HEIGHT, DEFAULT_STYLES } from '../utils/constants';
+import { parseACV } from '../utils/acv';
+import {
+  normalizeChannelPoints,
+  denormalizePoints,
+  getChannelDefinition,
+  DEFAULT_CHANNELS,
+} from '../utils/curve';
+import { getCurveAxis } from '../utils/hsl';
+import { fitChannelPoints } from '../utils/fit';
+import { getPreset, registerPreset } from '../utils/presets';
+import {
+  validateChannelPoints,
+  formatValidationIssues,
+} from '../utils/serialize';
+import {
+  DEFAULT_WIDTH,
+  DEFAULT_HEIGHT,
+  DEFAULT_STYLES,
+  DEFAULT_HISTORY_LIMIT,
+  DEFAULT_PENCIL_FIT_TOLERANCE,
+} from '../utils/constants';
+
+// Convert normalized (0-1) points from props into the 0-255 editor space
+function denormalizePartial(
+  points: Partial<ChannelPoints> | undefined
+): Partial<ChannelPoints> | undefined {
+  if (!points) return points;
+  const result: Partial<ChannelPoints> = {};
+  (Object.keys(points) as Channel[]).forEach((channel) => {
+    const channelPoints: CurvePoint[] | undefined = points[channel];
+    if (channelPoints) result[channel] = denormalizePoints(channelPoints);
+  });
+  return result;
+}
+
+// Throw on invalid points; unsorted points are accepted
+function checkPoints(points: Partial<ChannelPoints>): void {
+  const issues = validateChannelPoints(points, false);
+  if (issues.length > 0) {
+    throw new Error(`Invalid points: ${formatValidationIssues(issues)}`);
+  }
+}
 
 export const RGBCurve = forwardRef<RGBCurveRef, RGBCurveProps>(
   function RGBCurve(
@@ -26,38 +74,68 @@ export const RGBCurve = forwardRef<RGBCurveRef, RGBCurveProps>(
       height = DEFAULT_HEIGHT,
       defaultPoints,
       points: controlledPoints,
-      defaultChannel = 'master',
+      channels = DEFAULT_CHANNELS,
+      defaultChannel,
       activeChannel: controlledChannel,
       onChange,
       onChannelChange,
       styles = {},
       showTabs = true,
+      showAllChannels = false,
       showHistogram = false,
       histogramData,
       disabled = false,
       className,
       interpolation = 'monotone',
+      coordinateMode = 'byte',
+      historyLimit = DEFAULT_HISTORY_LIMIT,
+      showInspector = false,
+      drawMode = false,
+      intensity = 1,
     },
     ref
   ) {
+    const normalized = coordinateMode === 'normalized';
+
+    // Points are edited in 0-255 space; convert at the component boundary
+    const editorDefaultPoints = useMemo(
+      () => (normalized ? denormalizePartial(defaultPoints) : defaultPoints),
+      [normalized, defaultPoints]
+    );
+    const editorControlledPoints = useMemo(
+      () =>
+        normalized ? denormalizePartial(controlledPoints) : controlledPoints,
+      [normalized, controlledPoints]
+    );
+
     // Channel state
-    const [internalChannel, setInternalChannel] =
-      useState<Channel>(defaultChannel);
+    const [internalChannel, setInternalChannel] = useState<Channel>(
+      () => defaultChannel ?? channels[0]?.id ?? 'master'
+    );
     const activeChannel = controlledChannel ?? internalChannel;
+    const activeDefinition = getChannelDefinition(activeChannel, channels);
+    const channelLabel = activeDefinition.label;
+    const axis = getCurveAxis(activeDefinition.apply);
+
+    // Point shared by the canvas and the inspector
+    const [selectedPointIndex, setSelectedPointIndex] = useState<
+      number | null
+    >(null);
 
     // Handle onChange to wrap with channel info
     const handlePointsChange = useCallback(
-      (newPoints: ChannelPoints, newLut: LUTData) => {
+      (newPoints: ChannelPoints, newLut: LUTData, newTables: ChannelTables) => {
         if (onChange) {
           const data: CurveChangeData = {
-            points: newPoints,
+            points: normalized ? normalizeChannelPoints(newPoints) : newPoints,
             lut: newLut,
+            tables: newTables,
             activeChannel,
           };
           onChange(data);
         }
       },
-      [onChange, activeChannel]
+      [onChange, activeChannel, normalized]
     );
 
     // Curve points state
@@ -67,13 +145,29 @@ export const RGBCurve = forwardRef<RGBCurveRef, RGBCurveProps>(
       addPoint,
       removePoint,
       updatePoint,
+      removePoints,
+      movePoints,
       resetChannel,
       resetAll,
       setAllPoints,
+      tables,
+      setChannelTable,
+      smoothChannelTable,
+      convertTableToPoints,
+      beginGesture,
+      endGesture,
+      undo,
+      redo,
+      canUndo,
+      canRedo,
+      clearHistory,
     } = useCurvePoints({
-      defaultPoints,
-      controlledPoints,
+      defaultPoints: editorDefaultPoints,
+      controlledPoints: editorControlledPoints,
+      channels,
       interpolation,
+      historyLimit,
+      intensity,
       onChange: handlePointsChange,
     });
 
@@ -90,6 +184,60 @@ export const RGBCurve = forwardRef<RGBCurveRef, RGBCurveProps>(
       [controlledChannel, onChannelChange]
     );
 
+    // Checked path for 0-255 points: anything invalid throws before it
+    // reaches the state
+    const applyEditorPoints = useCallback(
+      (editorPoints: Partial<ChannelPoints>) => {
+        checkPoints(editorPoints);
+        setAllPoints(editorPoints);
+      },
+      [setAllPoints]
+    );
+
+    // Accept either channel points or a loaded .acv file. Points may be
+    // unsorted, but anything else invalid throws before it reaches the state.
+    const setPoints = useCallback(
+      (newPoints: Partial<ChannelPoints> | ArrayBuffer | Uint8Array) => {
+        if (newPoints instanceof ArrayBuffer || newPoints instanceof Uint8Array) {
+          applyEditorPoints(parseACV(newPoints));
+          return;
+        }
+
+        // Check the shape before converting, and the range after
+        if (normalized) checkPoints(newPoints);
+        applyEditorPoints(
+          normalized ? denormalizePartial(newPoints)! : newPoints
+        );
+      },
+      [applyEditorPoints, normalized]
+    );
+
+    // Presets are stored in 0-255 space, so they skip the normalized
+    // conversion but are checked like setPoints
+    const applyPreset = useCallback(
+      (preset: CurvePreset | string) => {
+        const resolved = typeof preset === 'string' ? getPreset(preset) : preset;
+        applyEditorPoints(resolved.points);
+      },
+      [applyEditorPoints]
+    );
+
+    // Drawn tables are saved as points fitted to them; a table that can't
+    // be fitted within tolerance throws instead of saving another curve
+    const savePreset = useCallback(
+      (name: string, category?: string) => {
+        const presetPoints: ChannelPoints = {
+          ...points,
+          ...fitChannelPoints(tables, {
+            interpolation,
+            tolerance: DEFAULT_PENCIL_FIT_TOLERANCE,
+          }),
+        };
+        return registerPreset({ name, category, points: presetPoints });
+      },
+      [points, tables, interpolation]
+    );
+
     // Expose methods via ref
     useImperativeHandle(
       ref,
@@ -97,10 +245,63 @@ export const RGBCurve = forwardRef<RGBCurveRef, RGBCurveProps>(
         reset: resetAll,
         resetChannel,
         getLUT: () => lut,
-        getPoints: () => points,
-        setPoints: setAllPoints,
+        getPoints: () => (normalized ? normalizeChannelPoints(points) : points),
+        setPoints,
+        undo,
+        redo,
+        canUndo: () => canUndo,
+        canRedo: () => canRedo,
+        clearHistory,
+        getTables: () => tables,
+        smooth: (channel = activeChannel, radius) =>
+          smoothChannelTable(channel, radius),
+        convertToPoints: (channel = activeChannel, options) =>
+          convertTableToPoints(channel, options),
+        applyPreset,
+        savePreset,
       }),
-      [resetAll, resetChannel, lut, points, setAllPoints]
+      [
+        resetAll,
+        resetChannel,
+        lut,
+        points,
+        setPoints,
+        normalized,
+        undo,
+        redo,
+        canUndo,
+        canRedo,
+        clearHistory,
+        tables,
+        activeChannel,
+        smoothChannelTable,
+        convertTableToPoints,
+        applyPreset,
+        savePreset,
+      ]
+    );
+
+    // Undo: Ctrl/Cmd+Z, redo: Ctrl/Cmd+Shift+Z or Ctrl+Y (from anywhere inside the editor)
+    const handleKeyDown = useCallback(
+      (e: KeyboardEvent<HTMLDivElement>) => {
+        if (disabled || !(e.ctrlKey || e.metaKey) || e.altKey) return;
+        // Leave text undo to the inspector fields
+        if (e.target instanceof HTMLInputElement) return;
+
+        const key = e.key.toLowerCase();
+        if (key === 'z') {
+          e.preventDefault();
+          if (e.shiftKey) {
+            redo();
+          } else {
+            undo();
+          }
+        } else if (key === 'y' && !e.shiftKey) {
+          e.preventDefault();
+          redo();
+        }
+      },
+      [disabled, undo, redo]
     );
 
     // Merge styles
@@ -112,12 +313,21 @@ export const RGBCurve = forwardRef<RGBCurveRef, RGBCurveProps>(
           ...styles.canvasWrapper,
         },
         grid: { ...DEFAULT_STYLES.grid, ...styles.grid },
-        curve: {
-          master: { ...DEFAULT_STYLES.curve.master, ...styles.curve?.master },
-          red: { ...DEFAULT_STYLES.curve.red, ...styles.curve?.red },
-          green: { ...DEFAULT_STYLES.curve.green, ...styles.curve?.green },
-          blue: { ...DEFAULT_STYLES.curve.blue, ...styles.curve?.blue },
-        },
+        // Channels without a default style draw in their own color
+        curve: Object.fromEntries(
+          channels.map(({ id, color }) => [
+            id,
+            {
+              ...(DEFAULT_STYLES.curve[id] ?? {
+                width: 2,
+                shadowColor: color,
+                shadowBlur: 4,
+              }),
+              color,
+              ...styles.curve?.[id],
+            },
+          ])
+        ) as Record<Channel, CurveLineStyle>,
         controlPoint: {
           ...DEFAULT_STYLES.controlPoint,
           ...styles.controlPoint,
@@ -128,23 +338,56 @@ export const RGBCurve = forwardRef<RGBCurveRef, RGBCurveProps>(
           tab: { ...DEFAULT_STYLES.tabs.tab, ...styles.tabs?.tab },
         },
         histogram: { ...DEFAULT_STYLES.histogram, ...styles.histogram },
+        inspector: { ...DEFAULT_STYLES.inspector, ...styles.inspector },
       };
-    }, [styles]);
+    }, [styles, channels]);
 
     // Get current channel's curve style
     const currentCurveStyle = mergedStyles.curve[activeChannel];
 
+    // Only curves on the same axis share the canvas with the active one
+    const inactiveCurves = useMemo<ChannelCurve[] | undefined>(
+      () =>
+        showAllChannels
+          ? channels
+              .filter(
+                ({ id, apply }) =>
+                  id !== activeChannel && getCurveAxis(apply) === axis
+              )
+              .map(({ id }) => ({
+                channel: id,
+                points: points[id] ?? [],
+                table: tables[id],
+                style: mergedStyles.curve[id],
+              }))
+          : undefined,
+      [
+        showAllChannels,
+        channels,
+        activeChannel,
+        axis,
+        points,
+        tables,
+        mergedStyles.curve,
+      ]
+    );
+
     const containerStyle: CSSProperties = {
       ...mergedStyles.container,
       width: 'fit-content',
     };
 
     return (
-      <div style={containerStyle} className={className}>
+      <div
+        style={containerStyle}
+        className={className}
+        onKeyDown={handleKeyDown}
+      >
         {showTabs && (
           <ChannelTabs
             activeChannel={activeChannel}
             onChange={handleChannelChange}
+            channels={channels}
             style={mergedStyles.tabs}
             disabled={disabled}
           />
@@ -153,8 +396,10 @@ export const RGBCurve = forwardRef<RGBCurveRef, RGBCurveProps>(
         <CurveCanvas
           width={width}
           height={height}
-          points={points[activeChannel]}
+          points={points[activeChannel] ?? []}
           channel={activeChannel}
+          channelLabel={channelLabel}
+          axis={axis}
           gridStyle={mergedStyles.grid}
           curveStyle={currentCurveStyle}
           controlPointStyle={mergedStyles.controlPoint}
@@ -166,10 +411,40 @@ export const RGBCurve = forwardRef<RGBCurveRef, RGBCurveProps>(
           wrapperStyle={mergedStyles.canvasWrapper}
           disabled={disabled}
           interpolation={interpolation}
+          roundCoordinates={!normalized}
+          drawMode={drawMode}
+          table={tables[activeChannel]}
+          onDrawTable={setChannelTable}
           onAddPoint={addPoint}
           onRemovePoint={removePoint}
           onUpdatePoint={updatePoint}
+          onRemovePoints={removePoints}
+          onMovePoints={movePoints}
+          selectedPointIndex={selectedPointIndex}
+          onSelectedPointIndexChange={setSelectedPointIndex}
+          inactiveCurves={inactiveCurves}
+          onSelectCurve={disabled ? undefined : handleChannelChange}
+          onDragStart={beginGesture}
+          onDragEnd={endGesture}
         />
+
+        {showInspector && (
+          <PointInspector
+            points={points[activeChannel] ?? []}
+            channel={activeChannel}
+            channelLabel={channelLabel}
+            selectedIndex={selectedPointIndex}
+            onSelectedIndexChange={setSelectedPointIndex}
+            onAddPoint={addPoint}
+            onRemovePoint={removePoint}
+            onUpdatePoint={updatePoint}
+            interpolation={interpolation}
+            axis={axis}
+            coordinateMode={coordinateMode}
+            style={mergedStyles.inspector}
+            disabled={disabled || activeChannel in tables}
+          />
+        )}
       </div>
     );
   }
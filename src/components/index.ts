@@ -1,3 +1,6 @@
 export { CurveCanvas } from './CurveCanvas';
 export { ChannelTabs } from './ChannelTabs';
+export { PointInspector } from './PointInspector';
 export { RGBCurve } from './RGBCurve';
+export { CurveFilter } from './CurveFilter';
+export { CurvePresetPicker } from './CurvePresetPicker';
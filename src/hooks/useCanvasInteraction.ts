@@ -1,7 +1,131 @@
-import { useState, useCallback, useRef, useEffect, MouseEvent } from 'react';
-import { CurvePoint, Channel } from '../types';
-import { sortPoints, isPointNear } from '../utils/curve';
-import { POINT_HIT_THRESHOLD } from '../utils/constants';
+import {
+  useState,
+  useCallback,
+  useRef,
+  useEffect,
+  MouseEvent,
+  PointerEvent,
+  KeyboardEvent,
+} from 'react';
+import {
+  CurvePoint,
+  Channel,
+  ChannelCurve,
+  Interpolation,
+  BezierHandle,
+  PointType,
+} from '../types';
+import {
+  sortPoints,
+  clamp,
+  getBezierHandles,
+  setPointType,
+  isPointNear,
+  getInsertionPoint,
+  getPeriodicPoints,
+  getInterpolator,
+  generateChannelLUT,
+} from '../utils/curve';
+import { sampleTable, drawTableSegment } from '../utils/pencil';
+import {
+  POINT_HIT_THRESHOLD,
+  COARSE_POINT_HIT_THRESHOLD,
+  LONG_PRESS_DURATION,
+  LONG_PRESS_MOVE_TOLERANCE,
+} from '../utils/constants';
+
+/**
+ * Screen reader description of a point, e.g. "input 128, output 141"
+ */
+export function describePoint(point: CurvePoint): string {
+  return `input ${Math.round(point.x)}, output ${Math.round(point.y)}`;
+}
+
+type PendingAnnouncement = 'move' | 'add' | 'remove' | 'removeGroup' | null;
+
+/**
+ * Which of a point's bezier handles
+ */
+export type HandleSide = 'in' | 'out';
+
+/**
+ * Point types in the order Alt-click cycles through them
+ */
+const NEXT_POINT_TYPE: Record<PointType, PointType> = {
+  smooth: 'corner',
+  corner: 'linear',
+  linear: 'smooth',
+};
+
+/**
+ * Handles that can be dragged for the point at index in bezier mode. End
+ * points only have the handle toward their neighbour; linear points have
+ * none.
+ */
+export function getEditableHandles(
+  sorted: CurvePoint[],
+  index: number
+): { side: HandleSide; handle: BezierHandle }[] {
+  const point = sorted[index];
+  if (!point || point.type === 'linear') return [];
+
+  const { handleIn, handleOut } = getBezierHandles(sorted, index);
+  const handles: { side: HandleSide; handle: BezierHandle }[] = [];
+  if (index > 0) handles.push({ side: 'in', handle: handleIn });
+  if (index < sorted.length - 1) handles.push({ side: 'out', handle: handleOut });
+  return handles;
+}
+
+/**
+ * Rubber-band selection rectangle in canvas pixels
+ */
+export interface SelectionBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+/**
+ * State captured when a multi-point drag starts
+ */
+interface GroupDrag {
+  indices: number[];
+  /** Pointer position (curve coordinates) at the start of the drag */
+  origin: CurvePoint;
+  /** Offset applied to the group so far */
+  applied: CurvePoint;
+}
+
+/**
+ * Pencil stroke in progress
+ */
+interface PencilStroke {
+  /** Table with everything drawn so far */
+  table: Uint8Array;
+  /** Last pointer position (curve coordinates) */
+  last: CurvePoint;
+}
+
+/**
+ * Shift, Cmd or Ctrl extend the selection instead of replacing it
+ */
+function isSelectionModifier(e: {
+  shiftKey: boolean;
+  metaKey: boolean;
+  ctrlKey: boolean;
+}): boolean {
+  return e.shiftKey || e.metaKey || e.ctrlKey;
+}
+
+/**
+ * Fingers and pens get a larger hit area than a mouse cursor
+ */
+function getHitThreshold(pointerType: string): number {
+  return pointerType === 'mouse'
+    ? POINT_HIT_THRESHOLD
+    : COARSE_POINT_HIT_THRESHOLD;
+}
 
 interface UseCanvasInteractionOptions {
   points: CurvePoint[];
@@ -9,19 +133,69 @@ interface UseCanvasInteractionOptions {
   width: number;
   height: number;
   disabled?: boolean;
+  /** Snap dragged/added points to whole 0-255 values (default true) */
+  roundCoordinates?: boolean;
+  /** Used to place keyboard-inserted points on the curve */
+  interpolation?: Interpolation;
+  /** The x-axis wraps (hue curves) */
+  periodic?: boolean;
+  /** Pencil tool: dragging draws a freehand table */
+  drawMode?: boolean;
+  /** The channel's drawn table; drawn channels are edited with the pencil */
+  table?: Uint8Array;
+  /** Called with the whole table as a pencil stroke progresses */
+  onDrawTable?: (channel: Channel, table: Uint8Array) => void;
   onAddPoint: (channel: Channel, point: CurvePoint) => void;
   onRemovePoint: (channel: Channel, index: number) => void;
   onUpdatePoint: (channel: Channel, index: number, point: CurvePoint) => void;
+  /** Remove every selected point; enables group deletion */
+  onRemovePoints?: (channel: Channel, indices: number[]) => void;
+  /**
+   * Offset every selected point; enables group dragging and nudging.
+   * Return the offset actually applied if it can be limited (e.g. by
+   * clamping), so a drag doesn't drift from the pointer.
+   */
+  onMovePoints?: (
+    channel: Channel,
+    indices: number[],
+    delta: CurvePoint
+  ) => CurvePoint | void;
+  /** Other channels' curves; clicking near one selects that channel */
+  inactiveCurves?: ChannelCurve[];
+  onSelectCurve?: (channel: Channel) => void;
+  /** Select a point from outside the canvas (e.g. a point inspector) */
+  selectedPointIndex?: number | null;
+  /** Called when the focused point changes */
+  onSelectedPointIndexChange?: (index: number | null) => void;
+  /** Called when a point drag begins */
+  onDragStart?: () => void;
+  /** Called once when a point drag ends */
+  onDragEnd?: () => void;
 }
 
 interface UseCanvasInteractionReturn {
   activePointIndex: number | null;
   hoveredPointIndex: number | null;
-  handleMouseDown: (e: MouseEvent<HTMLCanvasElement>) => void;
-  handleMouseMove: (e: MouseEvent<HTMLCanvasElement>) => void;
-  handleMouseUp: () => void;
-  handleMouseLeave: () => void;
+  handlePointerDown: (e: PointerEvent<HTMLCanvasElement>) => void;
+  handlePointerMove: (e: PointerEvent<HTMLCanvasElement>) => void;
+  handlePointerUp: (e: PointerEvent<HTMLCanvasElement>) => void;
+  handlePointerCancel: (e: PointerEvent<HTMLCanvasElement>) => void;
+  handlePointerLeave: () => void;
   handleDoubleClick: (e: MouseEvent<HTMLCanvasElement>) => void;
+  /** Cycles a point's bezier type in bezier mode */
+  handleContextMenu: (e: MouseEvent<HTMLCanvasElement>) => void;
+  /** Point targeted by keyboard editing */
+  selectedPointIndex: number | null;
+  setSelectedPointIndex: (index: number | null) => void;
+  /** Sorted indices of every selected point */
+  selectedIndices: number[];
+  /** Rubber-band rectangle while box selecting */
+  selectionBox: SelectionBox | null;
+  /** Inactive curve under the mouse */
+  hoveredCurve: Channel | null;
+  handleKeyDown: (e: KeyboardEvent<HTMLElement>) => void;
+  /** Latest message for the live region */
+  announcement: string;
 }
 
 export function useCanvasInteraction(
@@ -33,26 +207,115 @@ export function useCanvasInteraction(
     width,
     height,
     disabled = false,
+    roundCoordinates = true,
+    interpolation = 'monotone',
+    periodic = false,
+    drawMode = false,
+    table,
+    onDrawTable,
     onAddPoint,
     onRemovePoint,
     onUpdatePoint,
+    onRemovePoints,
+    onMovePoints,
+    inactiveCurves,
+    onSelectCurve,
+    selectedPointIndex: externalSelectedIndex,
+    onSelectedPointIndexChange,
+    onDragStart,
+    onDragEnd,
   } = options;
 
   const [activePointIndex, setActivePointIndex] = useState<number | null>(null);
   const [hoveredPointIndex, setHoveredPointIndex] = useState<number | null>(
     null
   );
+  const [selectedPointIndex, setSelectedPointIndex] = useState<number | null>(
+    null
+  );
+  const [selectedIndices, setSelectedIndices] = useState<number[]>([]);
+  const [selectionBox, setSelectionBox] = useState<SelectionBox | null>(null);
+  const [hoveredCurve, setHoveredCurve] = useState<Channel | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const pendingAnnouncement = useRef<PendingAnnouncement>(null);
   const isDragging = useRef(false);
+  const dragPointerId = useRef<number | null>(null);
+  const groupDrag = useRef<GroupDrag | null>(null);
+  const handleDrag = useRef<{ index: number; side: HandleSide } | null>(null);
+  const pencilStroke = useRef<PencilStroke | null>(null);
+  const bezier = interpolation === 'bezier';
+  const pencil = Boolean(onDrawTable) && (drawMode || table !== undefined);
+  const longPress = useRef<{
+    timer: ReturnType<typeof setTimeout>;
+    x: number;
+    y: number;
+  } | null>(null);
+
+  const cancelLongPress = useCallback(() => {
+    if (longPress.current) {
+      clearTimeout(longPress.current.timer);
+      longPress.current = null;
+    }
+  }, []);
+
+  // Keep the latest drag end callback for timers and global listeners
+  const onDragEndRef = useRef(onDragEnd);
+  onDragEndRef.current = onDragEnd;
+
+  // Finish a drag, notifying once even if several pointer events fire
+  const endDrag = useCallback(() => {
+    cancelLongPress();
+    dragPointerId.current = null;
+    groupDrag.current = null;
+    handleDrag.current = null;
+    pencilStroke.current = null;
+    setSelectionBox(null);
+    if (isDragging.current) {
+      isDragging.current = false;
+      onDragEndRef.current?.();
+    }
+    setActivePointIndex(null);
+  }, [cancelLongPress]);
+
+  // Don't leave a long-press timer running after unmount
+  useEffect(() => cancelLongPress, [cancelLongPress]);
+
+  // Focus a point, keeping the selection if the point is already part of it
+  const selectPoint = useCallback((index: number | null) => {
+    setSelectedPointIndex(index);
+    setSelectedIndices((prev) =>
+      index === null ? [] : prev.includes(index) ? prev : [index]
+    );
+  }, []);
+
+  // Keep the selection on the same points after some are removed: removed
+  // ones leave it and later indices shift down. End points are never removed.
+  const removeFromSelection = useCallback(
+    (removed: number[]) => {
+      const gone = removed.filter((i) => i > 0 && i < points.length - 1);
+      if (gone.length === 0) return;
+      const shift = (i: number) => i - gone.filter((r) => r < i).length;
+
+      setSelectedIndices((prev) =>
+        prev.filter((i) => !gone.includes(i)).map(shift)
+      );
+      setSelectedPointIndex((prev) =>
+        prev === null || gone.includes(prev) ? null : shift(prev)
+      );
+    },
+    [points.length]
+  );
 
   // Convert canvas coordinates to curve coordinates (0-255)
   const canvasToCurve = useCallback(
     (canvasX: number, canvasY: number): CurvePoint => {
-      return {
-        x: Math.round((canvasX / width) * 255),
-        y: Math.round((1 - canvasY / height) * 255), // Flip Y axis
-      };
+      const x = (canvasX / width) * 255;
+      const y = (1 - canvasY / height) * 255; // Flip Y axis
+      return roundCoordinates
+        ? { x: Math.round(x), y: Math.round(y) }
+        : { x, y };
     },
-    [width, height]
+    [width, height, roundCoordinates]
   );
 
   // Convert curve coordinates to canvas coordinates
@@ -68,18 +331,16 @@ export function useCanvasInteraction(
 
   // Find point at given canvas position
   const findPointAtPosition = useCallback(
-    (canvasX: number, canvasY: number): number | null => {
+    (
+      canvasX: number,
+      canvasY: number,
+      threshold: number = POINT_HIT_THRESHOLD
+    ): number | null => {
       const sorted = sortPoints(points);
 
       for (let i = 0; i < sorted.length; i++) {
         const canvasPoint = curveToCanvas(sorted[i].x, sorted[i].y);
-        if (
-          isPointNear(
-            { x: canvasX, y: canvasY },
-            canvasPoint,
-            POINT_HIT_THRESHOLD
-          )
-        ) {
+        if (isPointNear({ x: canvasX, y: canvasY }, canvasPoint, threshold)) {
           return i;
         }
       }
@@ -89,7 +350,93 @@ export function useCanvasInteraction(
     [points, curveToCanvas]
   );
 
-  // Get canvas position from mouse event
+  // Find a handle of the selected point at a canvas position (bezier mode)
+  const findHandleAtPosition = useCallback(
+    (
+      canvasX: number,
+      canvasY: number,
+      threshold: number = POINT_HIT_THRESHOLD
+    ): { index: number; side: HandleSide } | null => {
+      if (!bezier || selectedPointIndex === null) return null;
+
+      const sorted = sortPoints(points);
+      const point = sorted[selectedPointIndex];
+      for (const { side, handle } of getEditableHandles(
+        sorted,
+        selectedPointIndex
+      )) {
+        const canvasHandle = curveToCanvas(
+          point.x + handle.x,
+          point.y + handle.y
+        );
+        if (isPointNear({ x: canvasX, y: canvasY }, canvasHandle, threshold)) {
+          return { index: selectedPointIndex, side };
+        }
+      }
+
+      return null;
+    },
+    [bezier, selectedPointIndex, points, curveToCanvas]
+  );
+
+  // Cycle a point between smooth, corner and linear (bezier mode)
+  const cyclePointType = useCallback(
+    (index: number) => {
+      const sorted = sortPoints(points);
+      const type = NEXT_POINT_TYPE[sorted[index].type ?? 'smooth'];
+      onUpdatePoint(channel, index, setPointType(sorted, index, type));
+      selectPoint(index);
+      setAnnouncement(`${type[0].toUpperCase()}${type.slice(1)} point`);
+    },
+    [points, channel, onUpdatePoint, selectPoint]
+  );
+
+  // Find the inactive curve passing closest to a canvas position. The
+  // active curve wins ties so clicks on it still add points.
+  const findCurveAtPosition = useCallback(
+    (
+      canvasX: number,
+      canvasY: number,
+      threshold: number = POINT_HIT_THRESHOLD
+    ): Channel | null => {
+      if (!inactiveCurves || inactiveCurves.length === 0) return null;
+
+      const interpolate = getInterpolator(interpolation);
+      const x = (canvasX / width) * 255;
+      const distanceTo = (curvePoints: CurvePoint[], curveTable?: Uint8Array) => {
+        const curve = periodic
+          ? getPeriodicPoints(curvePoints)
+          : sortPoints(curvePoints);
+        const y = curveTable
+          ? sampleTable(curveTable, x)
+          : interpolate(curve, x, false);
+        return Math.abs(curveToCanvas(x, y).y - canvasY);
+      };
+
+      let nearest: Channel | null = null;
+      let nearestDistance = Math.min(threshold, distanceTo(points, table));
+      for (const curve of inactiveCurves) {
+        const distance = distanceTo(curve.points, curve.table);
+        if (distance < nearestDistance) {
+          nearest = curve.channel;
+          nearestDistance = distance;
+        }
+      }
+
+      return nearest;
+    },
+    [
+      inactiveCurves,
+      interpolation,
+      periodic,
+      width,
+      points,
+      table,
+      curveToCanvas,
+    ]
+  );
+
+  // Get canvas position from a pointer or mouse event
   const getCanvasPosition = useCallback(
     (e: MouseEvent<HTMLCanvasElement>): { x: number; y: number } => {
       const rect = e.currentTarget.getBoundingClientRect();
@@ -101,105 +448,566 @@ export function useCanvasInteraction(
     []
   );
 
-  const handleMouseDown = useCallback(
-    (e: MouseEvent<HTMLCanvasElement>) => {
-      if (disabled) return;
+  const handlePointerDown = useCallback(
+    (e: PointerEvent<HTMLCanvasElement>) => {
+      if (disabled || !e.isPrimary || e.button !== 0) return;
 
       const pos = getCanvasPosition(e);
-      const pointIndex = findPointAtPosition(pos.x, pos.y);
 
-      if (pointIndex !== null) {
-        // Start dragging existing point
+      if (pencil) {
+        // Clicking another curve still switches channels
+        const curveChannel = findCurveAtPosition(
+          pos.x,
+          pos.y,
+          getHitThreshold(e.pointerType)
+        );
+        if (onSelectCurve && curveChannel !== null) {
+          onSelectCurve(curveChannel);
+          return;
+        }
+
+        // Strokes start from the drawn table, or the curve through the points
+        const start = canvasToCurve(pos.x, pos.y);
+        const base = table ?? generateChannelLUT(points, interpolation, {
+          periodic,
+        });
+        const stroke = drawTableSegment(base, start, start);
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragPointerId.current = e.pointerId;
+        pencilStroke.current = { table: stroke, last: start };
+        isDragging.current = true;
+        onDragStart?.();
+        onDrawTable!(channel, stroke);
+        selectPoint(null);
+        return;
+      }
+
+      // Handles of the selected point sit above everything else
+      const handleHit = findHandleAtPosition(
+        pos.x,
+        pos.y,
+        getHitThreshold(e.pointerType)
+      );
+      if (handleHit) {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragPointerId.current = e.pointerId;
+        handleDrag.current = handleHit;
+        isDragging.current = true;
+        onDragStart?.();
+        return;
+      }
+
+      const pointIndex = findPointAtPosition(
+        pos.x,
+        pos.y,
+        getHitThreshold(e.pointerType)
+      );
+
+      if (bezier && e.altKey && pointIndex !== null) {
+        cyclePointType(pointIndex);
+        return;
+      }
+
+      const extend = isSelectionModifier(e);
+      const curveChannel =
+        pointIndex === null
+          ? findCurveAtPosition(pos.x, pos.y, getHitThreshold(e.pointerType))
+          : null;
+
+      if (pointIndex !== null && extend) {
+        // Toggle the point in the selection
+        const next = selectedIndices.includes(pointIndex)
+          ? selectedIndices.filter((i) => i !== pointIndex)
+          : [...selectedIndices, pointIndex].sort((a, b) => a - b);
+        setSelectedIndices(next);
+        setSelectedPointIndex(
+          next.includes(pointIndex) ? pointIndex : next[next.length - 1] ?? null
+        );
+      } else if (pointIndex !== null) {
+        // Start dragging existing point; capture keeps the drag alive
+        // when the pointer leaves the canvas or the window
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragPointerId.current = e.pointerId;
         setActivePointIndex(pointIndex);
+        setSelectedPointIndex(pointIndex);
+
+        // Dragging a point of a multi-selection moves the whole group
+        if (
+          onMovePoints &&
+          selectedIndices.length > 1 &&
+          selectedIndices.includes(pointIndex)
+        ) {
+          groupDrag.current = {
+            indices: selectedIndices,
+            origin: canvasToCurve(pos.x, pos.y),
+            applied: { x: 0, y: 0 },
+          };
+        } else {
+          setSelectedIndices([pointIndex]);
+        }
+
         isDragging.current = true;
+        onDragStart?.();
+
+        // Long-press is the touch equivalent of double-click deletion
+        if (e.pointerType !== 'mouse') {
+          cancelLongPress();
+          longPress.current = {
+            x: pos.x,
+            y: pos.y,
+            timer: setTimeout(() => {
+              longPress.current = null;
+              onRemovePoint(channel, pointIndex);
+              removeFromSelection([pointIndex]);
+              endDrag();
+            }, LONG_PRESS_DURATION),
+          };
+        }
+      } else if (onSelectCurve && curveChannel !== null) {
+        // Switch to the inactive curve that was clicked
+        onSelectCurve(curveChannel);
+      } else if (extend) {
+        // Rubber-band selection on empty space
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragPointerId.current = e.pointerId;
+        setSelectionBox({ x0: pos.x, y0: pos.y, x1: pos.x, y1: pos.y });
       } else {
         // Add new point
         const curvePoint = canvasToCurve(pos.x, pos.y);
         onAddPoint(channel, curvePoint);
+        selectPoint(null);
       }
     },
     [
       disabled,
       getCanvasPosition,
+      pencil,
+      table,
+      interpolation,
+      periodic,
+      onDrawTable,
+      findHandleAtPosition,
       findPointAtPosition,
+      findCurveAtPosition,
+      cyclePointType,
+      bezier,
       canvasToCurve,
+      points,
       channel,
+      selectedIndices,
+      onSelectCurve,
       onAddPoint,
+      onRemovePoint,
+      removeFromSelection,
+      onMovePoints,
+      onDragStart,
+      cancelLongPress,
+      endDrag,
+      selectPoint,
     ]
   );
 
-  const handleMouseMove = useCallback(
-    (e: MouseEvent<HTMLCanvasElement>) => {
+  const handlePointerMove = useCallback(
+    (e: PointerEvent<HTMLCanvasElement>) => {
       if (disabled) return;
 
       const pos = getCanvasPosition(e);
 
-      if (isDragging.current && activePointIndex !== null) {
-        // Dragging a point
+      if (pencilStroke.current) {
+        if (e.pointerId !== dragPointerId.current) return;
+
+        const { table: drawn, last } = pencilStroke.current;
         const curvePoint = canvasToCurve(pos.x, pos.y);
-        onUpdatePoint(channel, activePointIndex, curvePoint);
-      } else {
-        // Check for hover
-        const pointIndex = findPointAtPosition(pos.x, pos.y);
+        const stroke = drawTableSegment(drawn, last, curvePoint);
+        pencilStroke.current = { table: stroke, last: curvePoint };
+        onDrawTable?.(channel, stroke);
+      } else if (selectionBox) {
+        if (e.pointerId !== dragPointerId.current) return;
+        setSelectionBox({ ...selectionBox, x1: pos.x, y1: pos.y });
+      } else if (handleDrag.current) {
+        if (e.pointerId !== dragPointerId.current) return;
+
+        const { index, side } = handleDrag.current;
+        const sorted = sortPoints(points);
+        const point = sorted[index];
+        if (!point) return;
+
+        // Keep the handle pointing into its own segment
+        const curvePoint = canvasToCurve(pos.x, pos.y);
+        const handle = {
+          x:
+            side === 'out'
+              ? clamp(curvePoint.x - point.x, 0, sorted[index + 1].x - point.x)
+              : clamp(curvePoint.x - point.x, sorted[index - 1].x - point.x, 0),
+          y: curvePoint.y - point.y,
+        };
+
+        // Smooth points turn the opposite handle to stay in line, keeping
+        // its length; corner points leave it alone
+        const current = getBezierHandles(sorted, index);
+        let opposite = side === 'out' ? current.handleIn : current.handleOut;
+        const length = Math.hypot(handle.x, handle.y);
+        if (point.type !== 'corner' && length > 0) {
+          const oppositeLength = Math.hypot(opposite.x, opposite.y);
+          opposite = {
+            x: (-handle.x / length) * oppositeLength,
+            y: (-handle.y / length) * oppositeLength,
+          };
+        }
+
+        onUpdatePoint(channel, index, {
+          ...point,
+          handleIn: side === 'in' ? handle : opposite,
+          handleOut: side === 'out' ? handle : opposite,
+        });
+      } else if (isDragging.current && activePointIndex !== null) {
+        if (e.pointerId !== dragPointerId.current) return;
+
+        // Small finger jitter shouldn't cancel a long-press
+        const press = longPress.current;
+        if (press) {
+          if (isPointNear(pos, press, LONG_PRESS_MOVE_TOLERANCE)) return;
+          cancelLongPress();
+        }
+
+        const curvePoint = canvasToCurve(pos.x, pos.y);
+        const group = groupDrag.current;
+
+        if (group && onMovePoints) {
+          // Offset by what the pointer has moved minus what has already been
+          // applied, so clamping at a neighbour doesn't accumulate drift.
+          // The applied offset is kept here: points lag until the next
+          // render, and several moves can arrive before it.
+          const delta = {
+            x: curvePoint.x - group.origin.x - group.applied.x,
+            y: curvePoint.y - group.origin.y - group.applied.y,
+          };
+          const moved = onMovePoints(channel, group.indices, delta) ?? delta;
+          group.applied = {
+            x: group.applied.x + moved.x,
+            y: group.applied.y + moved.y,
+          };
+        } else {
+          // Dragging a point
+          onUpdatePoint(channel, activePointIndex, curvePoint);
+        }
+      } else if (e.pointerType === 'mouse') {
+        // Check for hover; drawn channels have no points to hover
+        const pointIndex = pencil ? null : findPointAtPosition(pos.x, pos.y);
         setHoveredPointIndex(pointIndex);
+        setHoveredCurve(
+          pointIndex === null && onSelectCurve
+            ? findCurveAtPosition(pos.x, pos.y)
+            : null
+        );
       }
     },
     [
       disabled,
       getCanvasPosition,
+      selectionBox,
       activePointIndex,
       canvasToCurve,
+      points,
       channel,
       onUpdatePoint,
+      onMovePoints,
+      onDrawTable,
+      onSelectCurve,
+      pencil,
       findPointAtPosition,
+      findCurveAtPosition,
+      cancelLongPress,
     ]
   );
 
-  const handleMouseUp = useCallback(() => {
-    isDragging.current = false;
-    setActivePointIndex(null);
-  }, []);
+  const handlePointerUp = useCallback(
+    (e: PointerEvent<HTMLCanvasElement>) => {
+      if (e.pointerId !== dragPointerId.current) return;
 
-  const handleMouseLeave = useCallback(() => {
-    isDragging.current = false;
-    setActivePointIndex(null);
+      // Add the points inside the rubber band to the selection
+      if (selectionBox) {
+        const left = Math.min(selectionBox.x0, selectionBox.x1);
+        const right = Math.max(selectionBox.x0, selectionBox.x1);
+        const top = Math.min(selectionBox.y0, selectionBox.y1);
+        const bottom = Math.max(selectionBox.y0, selectionBox.y1);
+        const inside = sortPoints(points)
+          .map((p, i) => ({ ...curveToCanvas(p.x, p.y), i }))
+          .filter((p) => p.x >= left && p.x <= right && p.y >= top && p.y <= bottom)
+          .map((p) => p.i);
+
+        if (inside.length > 0) {
+          const next = Array.from(new Set([...selectedIndices, ...inside])).sort(
+            (a, b) => a - b
+          );
+          setSelectedIndices(next);
+          setSelectedPointIndex(inside[inside.length - 1]);
+        }
+      }
+
+      if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+        e.currentTarget.releasePointerCapture(e.pointerId);
+      }
+      endDrag();
+    },
+    [selectionBox, points, curveToCanvas, selectedIndices, endDrag]
+  );
+
+  // Also covers pointercancel and lost capture (e.g. the element was removed)
+  const handlePointerCancel = useCallback(
+    (e: PointerEvent<HTMLCanvasElement>) => {
+      if (e.pointerId !== dragPointerId.current) return;
+      endDrag();
+    },
+    [endDrag]
+  );
+
+  const handlePointerLeave = useCallback(() => {
+    // The drag itself continues through pointer capture
     setHoveredPointIndex(null);
+    setHoveredCurve(null);
   }, []);
 
+  // Right-click on a point cycles its type
+  const handleContextMenu = useCallback(
+    (e: MouseEvent<HTMLCanvasElement>) => {
+      if (disabled || !bezier || pencil) return;
+
+      const pos = getCanvasPosition(e);
+      const pointIndex = findPointAtPosition(pos.x, pos.y);
+      if (pointIndex === null) return;
+
+      e.preventDefault();
+      // A touch long-press is already deleting the point
+      if (longPress.current) return;
+      cyclePointType(pointIndex);
+    },
+    [
+      disabled,
+      bezier,
+      pencil,
+      getCanvasPosition,
+      findPointAtPosition,
+      cyclePointType,
+    ]
+  );
+
   const handleDoubleClick = useCallback(
     (e: MouseEvent<HTMLCanvasElement>) => {
-      if (disabled) return;
+      if (disabled || pencil) return;
 
       const pos = getCanvasPosition(e);
       const pointIndex = findPointAtPosition(pos.x, pos.y);
 
       if (pointIndex !== null) {
         onRemovePoint(channel, pointIndex);
+        removeFromSelection([pointIndex]);
       }
     },
-    [disabled, getCanvasPosition, findPointAtPosition, channel, onRemovePoint]
+    [
+      disabled,
+      pencil,
+      getCanvasPosition,
+      findPointAtPosition,
+      channel,
+      onRemovePoint,
+      removeFromSelection,
+    ]
   );
 
-  // Handle global mouse up (in case mouse leaves canvas while dragging)
+  // Follow selections made outside the canvas
   useEffect(() => {
-    const handleGlobalMouseUp = () => {
-      isDragging.current = false;
-      setActivePointIndex(null);
-    };
+    if (externalSelectedIndex !== undefined) {
+      selectPoint(externalSelectedIndex);
+    }
+  }, [externalSelectedIndex, selectPoint]);
 
-    window.addEventListener('mouseup', handleGlobalMouseUp);
-    return () => {
-      window.removeEventListener('mouseup', handleGlobalMouseUp);
-    };
-  }, []);
+  useEffect(() => {
+    onSelectedPointIndexChange?.(selectedPointIndex);
+  }, [selectedPointIndex, onSelectedPointIndexChange]);
+
+  // Selection belongs to a channel's point list
+  useEffect(() => {
+    setSelectedPointIndex(null);
+    setSelectedIndices([]);
+  }, [channel]);
+
+  // Forget selected points that no longer exist
+  useEffect(() => {
+    setSelectedIndices((prev) =>
+      prev.some((i) => i >= points.length)
+        ? prev.filter((i) => i < points.length)
+        : prev
+    );
+  }, [points]);
+
+  // Drop the selection if the point no longer exists
+  useEffect(() => {
+    if (selectedPointIndex !== null && selectedPointIndex >= points.length) {
+      setSelectedPointIndex(points.length > 0 ? points.length - 1 : null);
+    }
+  }, [points, selectedPointIndex]);
+
+  // Announce keyboard edits once the new points have arrived
+  useEffect(() => {
+    const kind = pendingAnnouncement.current;
+    if (!kind) return;
+    pendingAnnouncement.current = null;
+
+    const sorted = sortPoints(points);
+    const point =
+      selectedPointIndex !== null ? sorted[selectedPointIndex] : undefined;
+    if (kind === 'removeGroup') {
+      setAnnouncement('Selected points removed');
+    } else if (kind === 'remove') {
+      setAnnouncement(
+        point ? `Point removed. Selected ${describePoint(point)}` : 'Point removed'
+      );
+    } else if (point) {
+      setAnnouncement(
+        kind === 'add' ? `Point added at ${describePoint(point)}` : describePoint(point)
+      );
+    }
+  }, [points, selectedPointIndex]);
+
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLElement>) => {
+      if (disabled || table || e.ctrlKey || e.metaKey || e.altKey) return;
+
+      const sorted = sortPoints(points);
+      const index =
+        selectedPointIndex !== null && selectedPointIndex < sorted.length
+          ? selectedPointIndex
+          : null;
+      const step = e.shiftKey ? 10 : 1;
+
+      // Keys act on the whole selection when the focused point belongs to it
+      const group =
+        index !== null &&
+        selectedIndices.length > 1 &&
+        selectedIndices.includes(index)
+          ? selectedIndices
+          : null;
+
+      switch (e.key) {
+        case 'ArrowLeft':
+        case 'ArrowRight':
+        case 'ArrowUp':
+        case 'ArrowDown': {
+          if (index === null) return;
+          e.preventDefault();
+          const point = sorted[index];
+          const dx =
+            e.key === 'ArrowLeft' ? -step : e.key === 'ArrowRight' ? step : 0;
+          const dy =
+            e.key === 'ArrowDown' ? -step : e.key === 'ArrowUp' ? step : 0;
+          pendingAnnouncement.current = 'move';
+          if (group && onMovePoints) {
+            onMovePoints(channel, group, { x: dx, y: dy });
+          } else {
+            onUpdatePoint(channel, index, { x: point.x + dx, y: point.y + dy });
+          }
+          break;
+        }
+
+        case 'Delete':
+        case 'Backspace': {
+          if (index === null) return;
+          e.preventDefault();
+
+          if (group && onRemovePoints) {
+            const removable = group.filter(
+              (i) => i > 0 && i < sorted.length - 1
+            );
+            if (removable.length === 0) {
+              setAnnouncement('End points cannot be removed');
+              return;
+            }
+            pendingAnnouncement.current = 'removeGroup';
+            onRemovePoints(channel, removable);
+            removeFromSelection(removable);
+            selectPoint(removable[0] - 1);
+            break;
+          }
+
+          if (index === 0 || index === sorted.length - 1) {
+            setAnnouncement('End points cannot be removed');
+            return;
+          }
+          pendingAnnouncement.current = 'remove';
+          onRemovePoint(channel, index);
+          removeFromSelection([index]);
+          selectPoint(index - 1);
+          break;
+        }
+
+        case 'Escape': {
+          if (!group) return;
+          e.preventDefault();
+          setSelectedIndices([index!]);
+          break;
+        }
+
+        case 'Enter':
+        case 'Insert': {
+          if (sorted.length < 2) return;
+          e.preventDefault();
+
+          // Insert after the selected point, or in the widest gap
+          const insertion = getInsertionPoint(
+            sorted,
+            index,
+            interpolation,
+            periodic
+          );
+          if (!insertion) {
+            setAnnouncement('No room to add a point here');
+            return;
+          }
+
+          pendingAnnouncement.current = 'add';
+          onAddPoint(channel, insertion.point);
+          setSelectedPointIndex(insertion.index);
+          setSelectedIndices([insertion.index]);
+          break;
+        }
+      }
+    },
+    [
+      disabled,
+      table,
+      points,
+      selectedPointIndex,
+      selectedIndices,
+      channel,
+      interpolation,
+      periodic,
+      onAddPoint,
+      onRemovePoint,
+      onUpdatePoint,
+      onRemovePoints,
+      onMovePoints,
+      selectPoint,
+      removeFromSelection,
+    ]
+  );
 
   return {
     activePointIndex,
     hoveredPointIndex,
-    handleMouseDown,
-    handleMouseMove,
-    handleMouseUp,
-    handleMouseLeave,
+    handlePointerDown,
+    handlePointerMove,
+    handlePointerUp,
+    handlePointerCancel,
+    handlePointerLeave,
     handleDoubleClick,
+    handleContextMenu,
+    selectedPointIndex,
+    setSelectedPointIndex: selectPoint,
+    selectedIndices,
+    selectionBox,
+    hoveredCurve,
+    handleKeyDown,
+    announcement,
   };
 }
@@ -1,23 +1,48 @@
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import {
+  BezierHandle,
   CurvePoint,
   ChannelPoints,
   Channel,
+  ChannelDefinition,
+  ChannelTables,
+  CurveFitOptions,
+  Interpolation,
   LUTData,
 } from '../types';
 import {
   getDefaultChannelPoints,
+  getChannelDefinition,
   sortPoints,
   generateLUT,
   clamp,
+  DEFAULT_CHANNELS,
 } from '../utils/curve';
-import { MIN_POINT_DISTANCE } from '../utils/constants';
+import { getCurveAxis } from '../utils/hsl';
+import { smoothTable } from '../utils/pencil';
+import { fitCurvePoints } from '../utils/fit';
+import { scaleLUTIntensity } from '../utils/algebra';
+import {
+  MIN_POINT_DISTANCE,
+  DEFAULT_HISTORY_LIMIT,
+  DEFAULT_PENCIL_FIT_TOLERANCE,
+} from '../utils/constants';
 
 interface UseCurvePointsOptions {
   defaultPoints?: Partial<ChannelPoints>;
   controlledPoints?: Partial<ChannelPoints>;
-  interpolation?: 'monotone' | 'catmullRom';
-  onChange?: (points: ChannelPoints, lut: LUTData) => void;
+  /** Channels to keep points for (default Master, Red, Green, Blue) */
+  channels?: readonly ChannelDefinition[];
+  interpolation?: Interpolation;
+  /** Maximum number of undo steps (0 disables history) */
+  historyLimit?: number;
+  /** Scales the emitted LUT toward the identity (0-1, default 1) */
+  intensity?: number;
+  onChange?: (
+    points: ChannelPoints,
+    lut: LUTData,
+    tables: ChannelTables
+  ) => void;
 }
 
 interface UseCurvePointsReturn {
@@ -26,10 +51,107 @@ interface UseCurvePointsReturn {
   addPoint: (channel: Channel, point: CurvePoint) => void;
   removePoint: (channel: Channel, index: number) => void;
   updatePoint: (channel: Channel, index: number, point: CurvePoint) => void;
+  /** Remove several points at once (end points are kept) */
+  removePoints: (channel: Channel, indices: number[]) => void;
+  /**
+   * Move several points together by the same offset. Returns the offset
+   * applied, which is smaller than asked where points hit a limit.
+   */
+  movePoints: (
+    channel: Channel,
+    indices: number[],
+    delta: CurvePoint
+  ) => CurvePoint;
   resetChannel: (channel: Channel) => void;
   resetAll: () => void;
   setChannelPoints: (channel: Channel, points: CurvePoint[]) => void;
   setAllPoints: (points: Partial<ChannelPoints>) => void;
+  /** Pencil-drawn tables; these channels ignore their points */
+  tables: ChannelTables;
+  /** Replace a channel's curve with a freehand table */
+  setChannelTable: (channel: Channel, table: ArrayLike<number>) => void;
+  /** Smooth a channel's drawn table (no-op for point-based channels) */
+  smoothChannelTable: (channel: Channel, radius?: number) => void;
+  /** Fit control points to a channel's drawn table and drop the table */
+  convertTableToPoints: (channel: Channel, options?: CurveFitOptions) => void;
+  /** Start a gesture; updates until endGesture form one undo step */
+  beginGesture: () => void;
+  /** Finish a gesture and record it if the points changed */
+  endGesture: () => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  clearHistory: () => void;
+}
+
+/**
+ * Everything an undo step restores
+ */
+interface CurveSnapshot {
+  points: ChannelPoints;
+  tables: ChannelTables;
+}
+
+interface CurveHistory {
+  past: CurveSnapshot[];
+  future: CurveSnapshot[];
+}
+
+function isSameHandle(a?: BezierHandle, b?: BezierHandle): boolean {
+  return a === b || (!!a && !!b && a.x === b.x && a.y === b.y);
+}
+
+function isSamePointList(a?: CurvePoint[], b?: CurvePoint[]): boolean {
+  if (a === b) return true;
+  if (!a || !b || a.length !== b.length) return false;
+  return a.every(
+    (p, i) =>
+      p.x === b[i].x &&
+      p.y === b[i].y &&
+      p.type === b[i].type &&
+      isSameHandle(p.handleIn, b[i].handleIn) &&
+      isSameHandle(p.handleOut, b[i].handleOut)
+  );
+}
+
+function isSameTable(a?: Uint8Array, b?: Uint8Array): boolean {
+  if (a === b) return true;
+  if (!a || !b || a.length !== b.length) return false;
+  return a.every((v, i) => v === b[i]);
+}
+
+/**
+ * Compare snapshots by value, so controlled points passed as a new object
+ * with the same curves don't count as an edit
+ */
+function isSameSnapshot(a: CurveSnapshot, b: CurveSnapshot): boolean {
+  const channels = new Set([
+    ...Object.keys(a.points),
+    ...Object.keys(b.points),
+    ...Object.keys(a.tables),
+    ...Object.keys(b.tables),
+  ]);
+  for (const channel of channels) {
+    if (!isSamePointList(a.points[channel], b.points[channel])) return false;
+    if (!isSameTable(a.tables[channel], b.tables[channel])) return false;
+  }
+  return true;
+}
+
+/**
+ * Drop the drawn tables of the given channels
+ */
+function withoutTables(
+  tables: ChannelTables,
+  channels: readonly Channel[]
+): ChannelTables {
+  if (!channels.some((channel) => channel in tables)) return tables;
+  const result = { ...tables };
+  for (const channel of channels) {
+    delete result[channel];
+  }
+  return result;
 }
 
 export function useCurvePoints(
@@ -38,23 +160,38 @@ export function useCurvePoints(
   const {
     defaultPoints,
     controlledPoints,
+    channels = DEFAULT_CHANNELS,
     interpolation = 'monotone',
+    historyLimit = DEFAULT_HISTORY_LIMIT,
+    intensity = 1,
     onChange,
   } = options;
 
+  // Baseline per channel: the diagonal, or a flat line for HSL curves
+  const channelDefaults = useMemo(
+    () => getDefaultChannelPoints(channels),
+    [channels]
+  );
+
+  // Fill channels missing from a partial points object with their baseline
+  const mergeWithDefaults = useCallback(
+    (partial: Partial<ChannelPoints>): ChannelPoints => {
+      const merged: Partial<ChannelPoints> = {};
+      for (const { id } of channels) {
+        merged[id] = partial[id] || channelDefaults[id];
+      }
+      return merged as ChannelPoints;
+    },
+    [channels, channelDefaults]
+  );
+
   // Merge default points with provided defaults
   const initialPoints = useMemo(() => {
-    const defaults = getDefaultChannelPoints();
     if (defaultPoints) {
-      return {
-        master: defaultPoints.master || defaults.master,
-        red: defaultPoints.red || defaults.red,
-        green: defaultPoints.green || defaults.green,
-        blue: defaultPoints.blue || defaults.blue,
-      };
+      return mergeWithDefaults(defaultPoints);
     }
-    return defaults;
-  }, [defaultPoints]);
+    return channelDefaults;
+  }, [defaultPoints, mergeWithDefaults, channelDefaults]);
 
   const [internalPoints, setInternalPoints] =
     useState<ChannelPoints>(initialPoints);
@@ -62,40 +199,163 @@ export function useCurvePoints(
   // Use controlled points if provided, otherwise internal state
   const points = useMemo(() => {
     if (controlledPoints) {
-      const defaults = getDefaultChannelPoints();
-      return {
-        master: controlledPoints.master || defaults.master,
-        red: controlledPoints.red || defaults.red,
-        green: controlledPoints.green || defaults.green,
-        blue: controlledPoints.blue || defaults.blue,
-      };
+      return mergeWithDefaults(controlledPoints);
     }
     return internalPoints;
-  }, [controlledPoints, internalPoints]);
+  }, [controlledPoints, internalPoints, mergeWithDefaults]);
+
+  const [tables, setTables] = useState<ChannelTables>({});
+
+  // Points and tables as of the last update, ahead of the render that
+  // delivers them, so moves that arrive between renders build on each other
+  const latestPoints = useRef(points);
+  latestPoints.current = points;
+  const latestTables = useRef(tables);
+  latestTables.current = tables;
+
+  // Generate LUT from points; drawn tables are used as they are, then the
+  // whole grade is scaled by intensity
+  const buildLUT = useCallback(
+    (curvePoints: ChannelPoints, curveTables: ChannelTables): LUTData => {
+      const result = generateLUT(curvePoints, interpolation, {}, channels);
+      for (const { id } of channels) {
+        const table = curveTables[id];
+        if (table) result[id] = Uint8Array.from(table);
+      }
+      // Scaling keeps every channel of the input, defaults included
+      return intensity === 1
+        ? result
+        : (scaleLUTIntensity(result, intensity, { channels }) as LUTData);
+    },
+    [interpolation, channels, intensity]
+  );
 
-  // Generate LUT from points
-  const lut = useMemo(() => {
-    return generateLUT(points, interpolation);
-  }, [points, interpolation]);
+  const lut = useMemo(
+    () => buildLUT(points, tables),
+    [buildLUT, points, tables]
+  );
 
-  // Helper to update points and trigger onChange
+  // Helper to update points and tables and trigger onChange
   const updatePoints = useCallback(
-    (newPoints: ChannelPoints) => {
+    (newPoints: ChannelPoints, newTables: ChannelTables = tables) => {
       if (!controlledPoints) {
         setInternalPoints(newPoints);
       }
+      latestPoints.current = newPoints;
+      latestTables.current = newTables;
+      setTables(newTables);
       if (onChange) {
-        const newLut = generateLUT(newPoints, interpolation);
-        onChange(newPoints, newLut);
+        onChange(newPoints, buildLUT(newPoints, newTables), newTables);
+      }
+    },
+    [controlledPoints, tables, onChange, buildLUT]
+  );
+
+  // Points don't change with intensity, so report the rescaled LUT here
+  const emittedIntensity = useRef(intensity);
+  useEffect(() => {
+    if (emittedIntensity.current === intensity) return;
+    emittedIntensity.current = intensity;
+    if (onChange) onChange(points, lut, tables);
+  }, [intensity, points, lut, tables, onChange]);
+
+  // Hue curves wrap, so their end points are the same hue and share one
+  // output value: copy the edited end's y to the other end
+  const linkPeriodicEnds = useCallback(
+    (
+      channel: Channel,
+      channelPoints: CurvePoint[],
+      editedIndex: number
+    ): CurvePoint[] => {
+      const last = channelPoints.length - 1;
+      const { apply } = getChannelDefinition(channel, channels);
+      if (getCurveAxis(apply) !== 'hue') return channelPoints;
+      if (editedIndex !== 0 && editedIndex !== last) return channelPoints;
+
+      const y = channelPoints[editedIndex].y;
+      return channelPoints.map((p, i) =>
+        i === 0 || i === last ? { ...p, y } : p
+      );
+    },
+    [channels]
+  );
+
+  // Undo/redo stacks; gestureStart holds the state before a drag began
+  const [history, setHistory] = useState<CurveHistory>({
+    past: [],
+    future: [],
+  });
+  const gestureStart = useRef<CurveSnapshot | null>(null);
+
+  const pushHistory = useCallback(
+    (entry: CurveSnapshot) => {
+      if (historyLimit <= 0) return;
+      setHistory((h) => ({
+        past: [...h.past, entry].slice(-historyLimit),
+        future: [],
+      }));
+    },
+    [historyLimit]
+  );
+
+  // Update points as an undoable edit (deferred while a gesture is active)
+  const commitPoints = useCallback(
+    (newPoints: ChannelPoints, newTables: ChannelTables = tables) => {
+      const current = { points, tables };
+      if (
+        !gestureStart.current &&
+        !isSameSnapshot(current, { points: newPoints, tables: newTables })
+      ) {
+        pushHistory(current);
       }
+      updatePoints(newPoints, newTables);
     },
-    [controlledPoints, onChange, interpolation]
+    [points, tables, pushHistory, updatePoints]
   );
 
+  const beginGesture = useCallback(() => {
+    gestureStart.current = { points, tables };
+  }, [points, tables]);
+
+  // Compares against the latest update, so an edit made in the same tick
+  // as the gesture ends (e.g. a long-press delete) is still recorded
+  const endGesture = useCallback(() => {
+    const start = gestureStart.current;
+    gestureStart.current = null;
+    const end = { points: latestPoints.current, tables: latestTables.current };
+    if (start && !isSameSnapshot(start, end)) {
+      pushHistory(start);
+    }
+  }, [pushHistory]);
+
+  const undo = useCallback(() => {
+    if (history.past.length === 0) return;
+    const previous = history.past[history.past.length - 1];
+    setHistory({
+      past: history.past.slice(0, -1),
+      future: [{ points, tables }, ...history.future],
+    });
+    updatePoints(previous.points, previous.tables);
+  }, [history, points, tables, updatePoints]);
+
+  const redo = useCallback(() => {
+    if (history.future.length === 0) return;
+    const [next, ...rest] = history.future;
+    setHistory({
+      past: [...history.past, { points, tables }].slice(-historyLimit),
+      future: rest,
+    });
+    updatePoints(next.points, next.tables);
+  }, [history, points, tables, historyLimit, updatePoints]);
+
+  const clearHistory = useCallback(() => {
+    setHistory({ past: [], future: [] });
+  }, []);
+
   // Add a new point to a channel
   const addPoint = useCallback(
     (channel: Channel, point: CurvePoint) => {
-      const channelPoints = points[channel];
+      const channelPoints = points[channel] ?? [];
 
       // Check if point is too close to existing points
       const sorted = sortPoints(channelPoints);
@@ -111,15 +371,15 @@ export function useCurvePoints(
         [channel]: newChannelPoints,
       };
 
-      updatePoints(newPoints);
+      commitPoints(newPoints);
     },
-    [points, updatePoints]
+    [points, commitPoints]
   );
 
   // Remove a point from a channel (except first and last)
   const removePoint = useCallback(
     (channel: Channel, index: number) => {
-      const channelPoints = points[channel];
+      const channelPoints = points[channel] ?? [];
 
       // Can't remove if only 2 points left
       if (channelPoints.length <= 2) return;
@@ -136,15 +396,15 @@ export function useCurvePoints(
         [channel]: newChannelPoints,
       };
 
-      updatePoints(newPoints);
+      commitPoints(newPoints);
     },
-    [points, updatePoints]
+    [points, commitPoints]
   );
 
   // Update a point's position
   const updatePoint = useCallback(
     (channel: Channel, index: number, newPoint: CurvePoint) => {
-      const channelPoints = sortPoints(points[channel]);
+      const channelPoints = sortPoints(points[channel] ?? []);
       const isFirst = index === 0;
       const isLast = index === channelPoints.length - 1;
 
@@ -164,41 +424,129 @@ export function useCurvePoints(
       // Clamp y to valid range
       const y = clamp(newPoint.y, 0, 255);
 
-      const newChannelPoints = channelPoints.map((p, i) =>
-        i === index ? { x, y } : p
+      // Fields not given (type, handles) carry over from the current point
+      const newChannelPoints = linkPeriodicEnds(
+        channel,
+        channelPoints.map((p, i) =>
+          i === index ? { ...p, ...newPoint, x, y } : p
+        ),
+        index
+      );
+
+      const newPoints = {
+        ...points,
+        [channel]: newChannelPoints,
+      };
+
+      commitPoints(newPoints);
+    },
+    [points, commitPoints, linkPeriodicEnds]
+  );
+
+  // Remove several points in one edit
+  const removePoints = useCallback(
+    (channel: Channel, indices: number[]) => {
+      const sorted = sortPoints(points[channel] ?? []);
+      const remove = new Set(
+        indices.filter((i) => i > 0 && i < sorted.length - 1)
       );
+      if (remove.size === 0) return;
 
       const newPoints = {
         ...points,
+        [channel]: sorted.filter((_, i) => !remove.has(i)),
+      };
+
+      commitPoints(newPoints);
+    },
+    [points, commitPoints]
+  );
+
+  // Move a group of points rigidly. The offset is reduced until every point
+  // stays in range and MIN_POINT_DISTANCE from the points that stay put;
+  // end points only move vertically.
+  const movePoints = useCallback(
+    (channel: Channel, indices: number[], delta: CurvePoint): CurvePoint => {
+      const current = latestPoints.current;
+      const sorted = sortPoints(current[channel] ?? []);
+      const selected = new Set(
+        indices.filter((i) => i >= 0 && i < sorted.length)
+      );
+      if (selected.size === 0) return { x: 0, y: 0 };
+
+      const last = sorted.length - 1;
+      const movesX = (i: number) => selected.has(i) && i !== 0 && i !== last;
+
+      let minDx = -Infinity;
+      let maxDx = Infinity;
+      let minDy = -Infinity;
+      let maxDy = Infinity;
+
+      selected.forEach((i) => {
+        const p = sorted[i];
+        minDy = Math.max(minDy, -p.y);
+        maxDy = Math.min(maxDy, 255 - p.y);
+
+        if (!movesX(i)) return;
+        if (!movesX(i - 1)) {
+          minDx = Math.max(minDx, sorted[i - 1].x + MIN_POINT_DISTANCE - p.x);
+        }
+        if (!movesX(i + 1)) {
+          maxDx = Math.min(maxDx, sorted[i + 1].x - MIN_POINT_DISTANCE - p.x);
+        }
+      });
+
+      // Bounds stay infinite when only end points are selected
+      const dx =
+        Number.isFinite(minDx) && minDx <= maxDx
+          ? clamp(delta.x, minDx, maxDx)
+          : 0;
+      const dy = clamp(delta.y, minDy, maxDy);
+      if (dx === 0 && dy === 0) return { x: 0, y: 0 };
+
+      const moved = sorted.map((p, i) =>
+        selected.has(i)
+          ? { ...p, x: movesX(i) ? p.x + dx : p.x, y: p.y + dy }
+          : p
+      );
+      const newChannelPoints = linkPeriodicEnds(
+        channel,
+        moved,
+        selected.has(0) ? 0 : selected.has(last) ? last : -1
+      );
+
+      const newPoints = {
+        ...current,
         [channel]: newChannelPoints,
       };
 
-      updatePoints(newPoints);
+      commitPoints(newPoints);
+      return { x: dx, y: dy };
     },
-    [points, updatePoints]
+    [commitPoints, linkPeriodicEnds]
   );
 
-  // Reset a single channel
+  // Reset a single channel (a drawn table goes back to points)
   const resetChannel = useCallback(
     (channel: Channel) => {
-      const defaults = getDefaultChannelPoints();
       const newPoints = {
         ...points,
-        [channel]: defaults[channel],
+        [channel]: getDefaultChannelPoints([
+          getChannelDefinition(channel, channels),
+        ])[channel],
       };
 
-      updatePoints(newPoints);
+      commitPoints(newPoints, withoutTables(tables, [channel]));
     },
-    [points, updatePoints]
+    [points, tables, commitPoints, channels]
   );
 
   // Reset all channels
   const resetAll = useCallback(() => {
-    const defaults = getDefaultChannelPoints();
-    updatePoints(defaults);
-  }, [updatePoints]);
+    commitPoints(channelDefaults, {});
+  }, [commitPoints, channelDefaults]);
 
-  // Set points for a specific channel
+  // Set points for a specific channel, replacing any drawn table
   const setChannelPoints = useCallback(
     (channel: Channel, newChannelPoints: CurvePoint[]) => {
       const newPoints = {
@@ -206,25 +554,69 @@ export function useCurvePoints(
         [channel]: sortPoints(newChannelPoints),
       };
 
-      updatePoints(newPoints);
+      commitPoints(newPoints, withoutTables(tables, [channel]));
     },
-    [points, updatePoints]
+    [points, tables, commitPoints]
   );
 
-  // Set all points at once
+  // Set all points at once, replacing every drawn table
   const setAllPoints = useCallback(
     (newPoints: Partial<ChannelPoints>) => {
-      const defaults = getDefaultChannelPoints();
-      const mergedPoints: ChannelPoints = {
-        master: sortPoints(newPoints.master || defaults.master),
-        red: sortPoints(newPoints.red || defaults.red),
-        green: sortPoints(newPoints.green || defaults.green),
-        blue: sortPoints(newPoints.blue || defaults.blue),
-      };
+      const mergedPoints = mergeWithDefaults(newPoints);
+      for (const { id } of channels) {
+        mergedPoints[id] = sortPoints(mergedPoints[id] ?? []);
+      }
 
-      updatePoints(mergedPoints);
+      commitPoints(mergedPoints, {});
+    },
+    [commitPoints, mergeWithDefaults, channels]
+  );
+
+  // Replace a channel's curve with a freehand table
+  const setChannelTable = useCallback(
+    (channel: Channel, table: ArrayLike<number>) => {
+      commitPoints(points, {
+        ...tables,
+        [channel]: Uint8Array.from(table),
+      });
+    },
+    [points, tables, commitPoints]
+  );
+
+  // Hue tables wrap, so smoothing continues across the ends
+  const smoothChannelTable = useCallback(
+    (channel: Channel, radius?: number) => {
+      const table = tables[channel];
+      if (!table) return;
+
+      const { apply } = getChannelDefinition(channel, channels);
+      const periodic = getCurveAxis(apply) === 'hue';
+      commitPoints(points, {
+        ...tables,
+        [channel]: smoothTable(table, radius, periodic),
+      });
+    },
+    [points, tables, commitPoints, channels]
+  );
+
+  // Fit control points to the drawn shape with the current interpolation;
+  // throws, keeping the table, when no fit is within tolerance
+  const convertTableToPoints = useCallback(
+    (channel: Channel, fitOptions: CurveFitOptions = {}) => {
+      const table = tables[channel];
+      if (!table) return;
+
+      const fitted = fitCurvePoints(table, {
+        interpolation,
+        tolerance: DEFAULT_PENCIL_FIT_TOLERANCE,
+        ...fitOptions,
+      });
+      commitPoints(
+        { ...points, [channel]: fitted },
+        withoutTables(tables, [channel])
+      );
     },
-    [updatePoints]
+    [points, tables, commitPoints, interpolation]
   );
 
   return {
@@ -233,9 +625,22 @@ export function useCurvePoints(
     addPoint,
     removePoint,
     updatePoint,
+    removePoints,
+    movePoints,
     resetChannel,
     resetAll,
     setChannelPoints,
     setAllPoints,
+    tables,
+    setChannelTable,
+    smoothChannelTable,
+    convertTableToPoints,
+    beginGesture,
+    endGesture,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    clearHistory,
   };
 }
@@ -4,6 +4,13 @@ export { RGBCurve } from './components/RGBCurve';
 // Sub-components (for advanced usage)
 export { CurveCanvas } from './components/CurveCanvas';
 export { ChannelTabs } from './components/ChannelTabs';
+export { PointInspector } from './components/PointInspector';
+
+// Live preview filter
+export { CurveFilter } from './components/CurveFilter';
+
+// Preset picker
+export { CurvePresetPicker } from './components/CurvePresetPicker';
 
 // Hooks
 export { useCurvePoints } from './hooks/useCurvePoints';
@@ -14,30 +21,162 @@ export {
   generateLUT,
   generateChannelLUT,
   applyLUT,
+  applyLUTToPixel,
   getDefaultPoints,
   getDefaultChannelPoints,
   monotoneCubicInterpolation,
   catmullRomInterpolation,
+  linearInterpolation,
+  naturalCubicInterpolation,
+  bSplineInterpolation,
+  bezierInterpolation,
+  getBezierHandles,
+  setPointType,
+  registerInterpolator,
+  getInterpolator,
+  getInterpolationNames,
   sortPoints,
   clamp,
+  getInsertionPoint,
+  getPeriodicPoints,
+  normalizePoints,
+  denormalizePoints,
+  normalizeChannelPoints,
+  denormalizeChannelPoints,
+  getChannelDefinition,
   CHANNELS,
   CHANNEL_INFO,
+  DEFAULT_CHANNELS,
+  LUMINANCE_CHANNEL,
+  ALPHA_CHANNEL,
+  HUE_VS_SATURATION_CHANNEL,
+  HUE_VS_HUE_CHANNEL,
+  LUMA_VS_SATURATION_CHANNEL,
+  HSL_CHANNELS,
 } from './utils/curve';
 
+// HSL secondary curves
+export {
+  rgbToHsl,
+  hslToRgb,
+  applySecondaryTable,
+  getCurveAxis,
+  SECONDARY_BASELINE,
+} from './utils/hsl';
+
+// Image processing
+export {
+  applyLUTToBuffer,
+  applyLUTToImageData,
+  precomposeLUT,
+  getUnfoldableChannels,
+} from './utils/image';
+export { createLUTProcessor } from './utils/processor';
+
+// Histogram
+export { computeHistogram, getChannelHistogram } from './utils/histogram';
+
+// LUT file formats
+export {
+  generateCubeLUT,
+  serializeCubeLUT,
+  exportCubeLUT,
+  parseCubeLUT,
+  importCubeLUT,
+  cubeToLUTData,
+  isSeparableCube,
+  getCubeSeparabilityError,
+} from './utils/cube';
+
+// Curve preset formats
+export { parseACV, serializeACV, readACVCurves } from './utils/acv';
+export { parseXMPToneCurves, serializeXMPToneCurves } from './utils/xmp';
+export {
+  toFFmpegCurves,
+  parseFFmpegCurves,
+  getFFmpegCurvesPreset,
+} from './utils/ffmpeg';
+
+// SVG / CSS filter output
+export {
+  getSVGFilterTables,
+  getSVGFilterURL,
+  generateSVGFilter,
+} from './utils/svgFilter';
+
+// Curve fitting
+export { fitCurve, fitCurvePoints, fitChannelPoints } from './utils/fit';
+
+// Presets
+export {
+  registerPreset,
+  unregisterPreset,
+  getPreset,
+  getPresets,
+  getCustomPresets,
+  getPresetCategories,
+  isBuiltInPreset,
+  subscribePresets,
+} from './utils/presets';
+
+// Versioned serialization
+export {
+  serializeCurves,
+  deserializeCurves,
+  encodeCurves,
+  decodeCurves,
+  validateCurves,
+  validateChannelPoints,
+  formatValidationIssues,
+  migrateCurves,
+  CURVES_FORMAT_VERSION,
+} from './utils/serialize';
+
+// Pencil-drawn tables
+export { sampleTable, drawTableSegment, smoothTable } from './utils/pencil';
+
+// Curve algebra
+export {
+  composeLUTs,
+  invertLUT,
+  blendLUTs,
+  scaleLUTIntensity,
+} from './utils/algebra';
+
 // Constants
 export {
   DEFAULT_STYLES,
   DEFAULT_WIDTH,
   DEFAULT_HEIGHT,
   CHANNEL_COLORS,
+  CUSTOM_PRESET_CATEGORY,
+  DEFAULT_PRESET_PICKER_STYLE,
 } from './utils/constants';
 
 // Types
 export type {
   CurvePoint,
+  PointType,
+  BezierHandle,
+  CoordinateMode,
+  Interpolation,
+  InterpolationFunction,
+  BuiltInInterpolation,
   Channel,
+  DefaultChannel,
+  ChannelDefinition,
+  ChannelApplication,
+  CurveAxis,
+  SecondaryApplication,
+  ChannelCurve,
   ChannelPoints,
   LUTData,
+  PartialLUTData,
+  LUTArray,
+  LUTArrayFor,
+  LUTOutputType,
+  LUTOptions,
+  ChannelTables,
   CurveChangeData,
   RGBCurveProps,
   RGBCurveRef,
@@ -46,5 +185,38 @@ export type {
   ControlPointStyle,
   GridStyle,
   TabsStyle,
+  InspectorStyle,
+  PointInspectorProps,
   HistogramStyle,
+  HistogramData,
+  HistogramInput,
+  CubeLUT,
+  CubeExportOptions,
+  CurveFitOptions,
+  CurveFitResult,
+  CurvesDocument,
+  SerializeCurvesOptions,
+  DeserializeCurvesOptions,
+  CurvesMigration,
+  CurveValidationIssue,
+  CurveAlgebraOptions,
+  CurveInversionWarning,
+  LUTInverse,
+  XMPExportOptions,
+  FFmpegCurvesPreset,
+  FFmpegCurvesOptions,
+  SVGFilterTables,
+  CurveFilterProps,
+  CurvePreset,
+  CurvePresetPickerProps,
+  PresetPickerStyle,
+  PixelBuffer,
+  PixelRegion,
+  ApplyLUTBufferOptions,
+  ApplyLUTImageDataOptions,
+  LUTProcessor,
+  LUTProcessorInput,
+  LUTProcessorOptions,
+  LUTProcessOptions,
+  LUTProgress,
 } from './types';
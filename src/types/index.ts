@@ -1,31 +1,199 @@
-import { CSSProperties } from 'react';
+import { CSSProperties, ReactNode, RefObject } from 'react';
 
 /**
  * A point on the curve
  */
 export interface CurvePoint {
-  x: number; // 0-255
-  y: number; // 0-255
+  x: number; // 0-255 (0-1 in normalized coordinate mode)
+  y: number; // 0-255 (0-1 in normalized coordinate mode)
+  /** How the curve passes through the point in bezier mode (default 'smooth') */
+  type?: PointType;
+  /** Bezier handle toward the previous point, as an offset from the point */
+  handleIn?: BezierHandle;
+  /** Bezier handle toward the next point, as an offset from the point */
+  handleOut?: BezierHandle;
 }
 
 /**
- * Available curve channels
+ * Bezier point types:
+ * - 'smooth': handles stay in line; automatic until one is dragged
+ * - 'corner': handles move independently
+ * - 'linear': no handles, so the curve leaves the point straight
  */
-export type Channel = 'master' | 'red' | 'green' | 'blue';
+export type PointType = 'smooth' | 'corner' | 'linear';
 
 /**
- * Points for all channels
+ * Offset of a bezier handle from its point, in the point's units
  */
-export type ChannelPoints = Record<Channel, CurvePoint[]>;
+export interface BezierHandle {
+  x: number;
+  y: number;
+}
+
+/**
+ * Evaluates the curve through points (sorted by x, 0-255 space) at x.
+ * Returns the 0-255 output, rounded unless round is false.
+ */
+export type InterpolationFunction = (
+  points: CurvePoint[],
+  x: number,
+  round?: boolean
+) => number;
+
+/**
+ * The interpolators that ship with the library:
+ * - 'monotone': monotone cubic (Fritsch-Carlson), never overshoots
+ * - 'catmullRom': Catmull-Rom spline, smoother but may overshoot
+ * - 'linear': straight segments, for hard posterize-style curves
+ * - 'naturalCubic': natural cubic spline, like Photoshop's curves
+ * - 'bSpline': uniform cubic B-spline, passing through the end points only
+ * - 'bezier': cubic bezier segments shaped by each point's handles
+ */
+export type BuiltInInterpolation =
+  | 'monotone'
+  | 'catmullRom'
+  | 'linear'
+  | 'naturalCubic'
+  | 'bSpline'
+  | 'bezier';
+
+/**
+ * A built-in or registered interpolator name, or an interpolation function
+ */
+export type Interpolation =
+  | BuiltInInterpolation
+  | (string & {})
+  | InterpolationFunction;
+
+/**
+ * Coordinate space for control points: 8-bit (0-255) or normalized (0-1)
+ */
+export type CoordinateMode = 'byte' | 'normalized';
+
+/**
+ * The built-in RGB curve channels
+ */
+export type DefaultChannel = 'master' | 'red' | 'green' | 'blue';
+
+/**
+ * Curve channel id: one of the default channels or a custom id
+ */
+export type Channel = DefaultChannel | (string & {});
+
+/**
+ * How a channel's curve is applied to a pixel:
+ * - 'rgb': to red, green and blue alike (like the master curve)
+ * - 'red' / 'green' / 'blue' / 'alpha': to that component only
+ * - 'luminance': to Rec. 709 luma, keeping chroma
+ * - 'hueVsSaturation' / 'hueVsHue': HSL secondary curves with hue on the
+ *   x-axis, scaling saturation or shifting hue
+ * - 'lumaVsSaturation': scales saturation by the pixel's luma
+ * - 'none': not applied; the LUT is only generated for the consumer
+ */
+export type ChannelApplication =
+  | 'rgb'
+  | 'red'
+  | 'green'
+  | 'blue'
+  | 'alpha'
+  | 'luminance'
+  | 'hueVsSaturation'
+  | 'hueVsHue'
+  | 'lumaVsSaturation'
+  | 'none';
+
+/**
+ * Applications whose curve is read against hue or luma instead of the
+ * channel value
+ */
+export type SecondaryApplication = Extract<
+  ChannelApplication,
+  'hueVsSaturation' | 'hueVsHue' | 'lumaVsSaturation'
+>;
+
+/**
+ * What a curve's x-axis represents: the channel value (tone curves), hue
+ * (wraps from 360 back to 0 degrees) or luma
+ */
+export type CurveAxis = 'value' | 'hue' | 'luma';
+
+/**
+ * Declares a curve channel
+ */
+export interface ChannelDefinition {
+  id: Channel;
+  /** Tab and accessibility label */
+  label: string;
+  /** Indicator and curve color */
+  color: string;
+  /** How applyLUT uses the channel (default 'none') */
+  apply?: ChannelApplication;
+}
+
+/**
+ * Points for all channels, keyed by channel id. Master and R/G/B are typed
+ * as present; custom channels may be missing.
+ */
+export type ChannelPoints = Record<DefaultChannel, CurvePoint[]> &
+  Partial<Record<string, CurvePoint[]>>;
+
+/**
+ * Typed array holding a single channel LUT
+ */
+export type LUTArray = Uint8Array | Uint16Array | Float32Array;
+
+/**
+ * LUT output element type: 'uint8' (0-255), 'uint16' (0-65535), 'float32' (0-1)
+ */
+export type LUTOutputType = 'uint8' | 'uint16' | 'float32';
+
+/**
+ * Typed array produced for a given LUT output type
+ */
+export type LUTArrayFor<T extends LUTOutputType> = T extends 'uint16'
+  ? Uint16Array
+  : T extends 'float32'
+  ? Float32Array
+  : Uint8Array;
+
+/**
+ * LUT tables keyed by channel id, any of which may be missing. Functions
+ * that read LUTs accept this, so LUTs for custom channel sets work too.
+ */
+export type PartialLUTData<T extends LUTArray = Uint8Array> = Partial<
+  Record<string, T>
+>;
+
+/**
+ * LUT (Look Up Table) for all channels - 256 8-bit values each by default.
+ * Master, Red, Green and Blue are always typed as present, plus any custom
+ * channels; a LUT built for a custom channel set without them only holds
+ * its own channels, so read it as PartialLUTData.
+ */
+export type LUTData<T extends LUTArray = Uint8Array> = Record<
+  DefaultChannel,
+  T
+> &
+  PartialLUTData<T>;
 
 /**
- * LUT (Look Up Table) for all channels - 256 values each
+ * Freehand 256-entry tables drawn with the pencil, keyed by channel id.
+ * A drawn channel's LUT is its table; its control points are ignored.
  */
-export interface LUTData {
-  master: Uint8Array;
-  red: Uint8Array;
-  green: Uint8Array;
-  blue: Uint8Array;
+export type ChannelTables = Record<string, Uint8Array>;
+
+/**
+ * Options for generating LUTs at other resolutions and bit depths
+ */
+export interface LUTOptions<T extends LUTOutputType = LUTOutputType> {
+  /** Number of entries per channel (default 256) */
+  size?: number;
+  /** Output element type (default 'uint8') */
+  outputType?: T;
+  /** Points are in normalized 0-1 coordinates */
+  normalized?: boolean;
+  /** The x-axis wraps (hue curves): the spline continues past 255 into 0 */
+  periodic?: boolean;
 }
 
 /**
@@ -36,6 +204,8 @@ export interface CurveChangeData {
   points: ChannelPoints;
   /** Generated LUT for pixel processing */
   lut: LUTData;
+  /** Pencil-drawn tables of channels that are not point based */
+  tables: ChannelTables;
   /** Currently active channel */
   activeChannel: Channel;
 }
@@ -50,6 +220,17 @@ export interface CurveLineStyle {
   shadowBlur?: number;
 }
 
+/**
+ * Another channel's curve, drawn faded behind the active one
+ */
+export interface ChannelCurve {
+  channel: Channel;
+  points: CurvePoint[];
+  /** Pencil-drawn table, drawn instead of the points */
+  table?: Uint8Array;
+  style?: CurveLineStyle;
+}
+
 /**
  * Style configuration for control points
  */
@@ -94,6 +275,39 @@ export interface TabsStyle {
   };
 }
 
+/**
+ * Style configuration for the point inspector
+ */
+export interface InspectorStyle {
+  background?: string;
+  borderRadius?: number;
+  gap?: number;
+  fontSize?: number;
+  labelColor?: string;
+  inputBackground?: string;
+  inputColor?: string;
+  inputBorder?: string;
+  errorColor?: string;
+  buttonBackground?: string;
+  buttonColor?: string;
+}
+
+/**
+ * Histogram counts per channel - 256 bins each
+ */
+export interface HistogramData {
+  /** Luminance (shown on the master channel) */
+  luminance: Uint32Array;
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+}
+
+/**
+ * Histogram input: one set of 256 bins for every channel, or per-channel data
+ */
+export type HistogramInput = Uint8Array | Uint32Array | HistogramData;
+
 /**
  * Style configuration for histogram
  */
@@ -101,6 +315,24 @@ export interface HistogramStyle {
   show?: boolean;
   opacity?: number;
   fillColor?: string;
+  /** Count scaling: 'linear', 'log' or 'sqrt' */
+  scale?: 'linear' | 'log' | 'sqrt';
+  /** 'channel' shows the active channel; 'rgb' overlays R/G/B additively */
+  mode?: 'channel' | 'rgb';
+  /** Filled bars or an outline */
+  variant?: 'filled' | 'outline';
+  /** Line width for the outline variant */
+  outlineWidth?: number;
+  /** Mark shadow/highlight clipping (pixels in bins 0 and 255) */
+  showClipping?: boolean;
+  /** Clipping marker color */
+  clippingColor?: string;
+  /** Colors for the overlaid RGB mode */
+  channelColors?: {
+    red: string;
+    green: string;
+    blue: string;
+  };
 }
 
 /**
@@ -113,19 +345,16 @@ export interface RGBCurveStyles {
   canvasWrapper?: CSSProperties;
   /** Grid appearance */
   grid?: GridStyle;
-  /** Curve line styles per channel */
-  curve?: {
-    master?: CurveLineStyle;
-    red?: CurveLineStyle;
-    green?: CurveLineStyle;
-    blue?: CurveLineStyle;
-  };
+  /** Curve line styles per channel id */
+  curve?: Partial<Record<Channel, CurveLineStyle>>;
   /** Control point appearance */
   controlPoint?: ControlPointStyle;
   /** Channel tabs appearance */
   tabs?: TabsStyle;
   /** Histogram appearance */
   histogram?: HistogramStyle;
+  /** Point inspector appearance */
+  inspector?: InspectorStyle;
 }
 
 /**
@@ -140,6 +369,8 @@ export interface RGBCurveProps {
   defaultPoints?: Partial<ChannelPoints>;
   /** Controlled points (makes component controlled) */
   points?: Partial<ChannelPoints>;
+  /** Channels to edit, in tab order (default Master, Red, Green, Blue) */
+  channels?: ChannelDefinition[];
   /** Default active channel */
   defaultChannel?: Channel;
   /** Controlled active channel */
@@ -152,16 +383,34 @@ export interface RGBCurveProps {
   styles?: RGBCurveStyles;
   /** Show/hide channel tabs */
   showTabs?: boolean;
+  /** Draw the other channels' curves faded behind the active one */
+  showAllChannels?: boolean;
   /** Show/hide histogram */
   showHistogram?: boolean;
-  /** Histogram data (256 values) */
-  histogramData?: Uint8Array;
+  /** Histogram data (256 bins, or per-channel bins from computeHistogram) */
+  histogramData?: HistogramInput;
   /** Disable interaction */
   disabled?: boolean;
   /** Class name for container */
   className?: string;
   /** Interpolation type */
-  interpolation?: 'monotone' | 'catmullRom';
+  interpolation?: Interpolation;
+  /** Coordinate space for points in props, onChange and ref methods */
+  coordinateMode?: CoordinateMode;
+  /** Maximum number of undo steps (0 disables history) */
+  historyLimit?: number;
+  /** Show numeric input/output fields for the selected point */
+  showInspector?: boolean;
+  /**
+   * Strength of the grade in the emitted `lut`, from 0 (identity) to 1
+   * (full, the default). Points are not affected.
+   */
+  intensity?: number;
+  /**
+   * Pencil tool: dragging on the canvas draws the curve freehand. Drawn
+   * channels keep using the pencil until converted back to points.
+   */
+  drawMode?: boolean;
 }
 
 /**
@@ -176,6 +425,462 @@ export interface RGBCurveRef {
   getLUT: () => LUTData;
   /** Get current points */
   getPoints: () => ChannelPoints;
-  /** Set points programmatically */
-  setPoints: (points: Partial<ChannelPoints>) => void;
+  /**
+   * Set points programmatically (also accepts raw Photoshop `.acv` bytes).
+   * Throws if points are missing, out of range, NaN or share an x.
+   */
+  setPoints: (points: Partial<ChannelPoints> | ArrayBuffer | Uint8Array) => void;
+  /** Undo the last edit */
+  undo: () => void;
+  /** Redo the last undone edit */
+  redo: () => void;
+  /** Whether there is an edit to undo */
+  canUndo: () => boolean;
+  /** Whether there is an edit to redo */
+  canRedo: () => boolean;
+  /** Drop all undo/redo history */
+  clearHistory: () => void;
+  /** Get the pencil-drawn tables */
+  getTables: () => ChannelTables;
+  /** Smooth a drawn table (default the active channel); repeat for more */
+  smooth: (channel?: Channel, radius?: number) => void;
+  /**
+   * Replace a drawn table with control points fitted to its shape. Throws
+   * (leaving the table) when no fit within tolerance is found.
+   */
+  convertToPoints: (channel?: Channel, options?: CurveFitOptions) => void;
+  /**
+   * Apply a preset (or a registered preset's name) like setPoints; invalid
+   * points throw
+   */
+  applyPreset: (preset: CurvePreset | string) => void;
+  /**
+   * Register the current curves as a custom preset and return it. Drawn
+   * tables are fitted to points, throwing if one can't be fitted.
+   */
+  savePreset: (name: string, category?: string) => CurvePreset;
+}
+
+/**
+ * Named set of curves that can be applied in one step
+ */
+export interface CurvePreset {
+  /** Unique name, shown in the preset picker */
+  name: string;
+  /** Group in the preset picker (custom presets default to 'Custom') */
+  category?: string;
+  /** Points per channel (0-255); missing channels are reset */
+  points: Partial<ChannelPoints>;
+}
+
+/**
+ * Style configuration for the preset picker
+ */
+export interface PresetPickerStyle {
+  background?: string;
+  borderRadius?: number;
+  gap?: number;
+  fontSize?: number;
+  labelColor?: string;
+  categoryColor?: string;
+  itemBackground?: string;
+  activeItemBackground?: string;
+  previewBackground?: string;
+  inputBackground?: string;
+  inputColor?: string;
+  inputBorder?: string;
+  buttonBackground?: string;
+  buttonColor?: string;
+}
+
+/**
+ * Props for the CurvePresetPicker component
+ */
+export interface CurvePresetPickerProps {
+  /** Editor that chosen presets are applied to (and saved from) */
+  curveRef?: RefObject<RGBCurveRef>;
+  /** Called when a preset is chosen, after it is applied to curveRef */
+  onSelect?: (preset: CurvePreset) => void;
+  /** Only list these categories, in this order (default all) */
+  categories?: string[];
+  /** Show a form for saving the editor's curves as a custom preset */
+  allowSave?: boolean;
+  /** Interpolation used for the previews (default 'monotone') */
+  interpolation?: Interpolation;
+  /** Preview size in pixels (default 48) */
+  previewSize?: number;
+  style?: PresetPickerStyle;
+  disabled?: boolean;
+}
+
+/**
+ * Parsed or generated `.cube` LUT (Adobe / Resolve format)
+ */
+export interface CubeLUT {
+  /** Optional TITLE line */
+  title?: string;
+  /** LUT_1D_SIZE or LUT_3D_SIZE */
+  type: '1D' | '3D';
+  /** Number of entries (1D) or samples per axis (3D) */
+  size: number;
+  /** DOMAIN_MIN for R, G, B */
+  domainMin: [number, number, number];
+  /** DOMAIN_MAX for R, G, B */
+  domainMax: [number, number, number];
+  /** RGB output triplets (0-1), red index changing fastest for 3D */
+  data: Float32Array;
+}
+
+/**
+ * Options for generating a `.cube` LUT
+ */
+export interface CubeExportOptions {
+  /** '1D' (default) or baked '3D' cube */
+  type?: '1D' | '3D';
+  /** Entries for 1D (default 256) or samples per axis for 3D (default 33) */
+  size?: number;
+  /** Optional TITLE line */
+  title?: string;
+  /** Input domain minimum (default [0, 0, 0]) */
+  domainMin?: [number, number, number];
+  /** Input domain maximum (default [1, 1, 1]) */
+  domainMax?: [number, number, number];
+  /** Interpolation used when generating from control points */
+  interpolation?: Interpolation;
+  /**
+   * How each curve is applied (default Master, Red, Green, Blue).
+   * Luminance and HSL curves need a 3D cube.
+   */
+  channels?: ChannelDefinition[];
+  /** Decimal places written per value (default 6) */
+  precision?: number;
+}
+
+/**
+ * Options for fitting control points to a LUT table
+ */
+export interface CurveFitOptions {
+  /** Maximum allowed difference per entry, in 0-255 units (default 1) */
+  tolerance?: number;
+  /** Interpolation the fitted points will be evaluated with */
+  interpolation?: Interpolation;
+  /** Upper bound on points per channel, endpoints included (default 16) */
+  maxPoints?: number;
+}
+
+/**
+ * Points fitted by fitCurve and how closely they follow the table
+ */
+export interface CurveFitResult {
+  points: CurvePoint[];
+  /** Largest difference from the table, in 0-255 units */
+  maxError: number;
+}
+
+/**
+ * Options for the curve algebra utilities (composeLUTs, invertLUT, ...)
+ */
+export interface CurveAlgebraOptions {
+  /** Interpolation for sources given as points (default 'monotone') */
+  interpolation?: Interpolation;
+  /** Channel definitions the curves belong to (default Master, R, G, B) */
+  channels?: readonly ChannelDefinition[];
+}
+
+/**
+ * Where invertLUT could not produce an exact inverse
+ */
+export interface CurveInversionWarning {
+  channel: Channel;
+  /**
+   * 'flat': a run of inputs shares one output, so the inverse picks the
+   * middle; 'nonMonotonic': outputs are reached more than once; 'range':
+   * some outputs are never reached and map to the nearest end.
+   */
+  kind: 'flat' | 'nonMonotonic' | 'range';
+  message: string;
+}
+
+/**
+ * Result of invertLUT
+ */
+export interface LUTInverse {
+  lut: LUTData;
+  /** Empty when every channel was exactly invertible */
+  warnings: CurveInversionWarning[];
+}
+
+/**
+ * Curves read back by deserializeCurves
+ */
+export interface CurvesDocument {
+  /** Format version the data was written in, after migration */
+  version: number;
+  /** Interpolation the points are meant to be drawn with */
+  interpolation: string;
+  /** Points per channel (0-255) */
+  points: ChannelPoints;
+  /** Pencil-drawn tables, if any */
+  tables?: ChannelTables;
+  /** Application data stored alongside the curves */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Options for serializeCurves and encodeCurves
+ */
+export interface SerializeCurvesOptions {
+  /** Interpolation to record; must be a name (default 'monotone') */
+  interpolation?: Interpolation;
+  /** Pencil-drawn tables to store with the points */
+  tables?: ChannelTables;
+  /** Application data to store alongside the curves (must be JSON) */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Upgrade raw serialized data from one format version to the next
+ */
+export type CurvesMigration = (
+  data: Record<string, unknown>
+) => Record<string, unknown>;
+
+/**
+ * Options for deserializeCurves and decodeCurves
+ */
+export interface DeserializeCurvesOptions {
+  /**
+   * Migrations keyed by the version they upgrade from; they run in order
+   * until the data reaches the current version. Built-in migrations are
+   * used for versions not listed.
+   */
+  migrations?: Record<number, CurvesMigration>;
+}
+
+/**
+ * One problem found by validateCurves
+ */
+export interface CurveValidationIssue {
+  /** Where the problem is, e.g. `points.red[2].x` */
+  path: string;
+  message: string;
+}
+
+/**
+ * Options for exporting a Lightroom / Camera Raw `.xmp` preset
+ */
+export interface XMPExportOptions {
+  /** Preset name shown in Lightroom (default 'RGB Curve') */
+  name?: string;
+  /** Preset group (folder) name */
+  group?: string;
+  /** 32-digit hex preset UUID (generated when omitted) */
+  uuid?: string;
+  /** Camera Raw process version (default '11.0') */
+  processVersion?: string;
+}
+
+/**
+ * Named presets of the ffmpeg `curves` filter
+ */
+export type FFmpegCurvesPreset =
+  | 'none'
+  | 'color_negative'
+  | 'cross_process'
+  | 'darker'
+  | 'increase_contrast'
+  | 'lighter'
+  | 'linear_contrast'
+  | 'medium_contrast'
+  | 'negative'
+  | 'strong_contrast'
+  | 'vintage';
+
+/**
+ * Options for generating an ffmpeg `curves` filter string
+ */
+export interface FFmpegCurvesOptions {
+  /** Prefix the output with `curves=` (default true) */
+  includeFilterName?: boolean;
+  /** Also write channels that are the untouched diagonal (default false) */
+  includeIdentity?: boolean;
+  /** Maximum decimal places per coordinate (default 4) */
+  precision?: number;
+}
+
+/**
+ * feFuncR/G/B `tableValues` strings for an SVG curve filter
+ */
+export interface SVGFilterTables {
+  red: string;
+  green: string;
+  blue: string;
+  /** Only present when the LUT has an alpha curve */
+  alpha?: string;
+}
+
+/**
+ * Props for the CurveFilter component
+ */
+export interface CurveFilterProps {
+  /** LUT to apply, e.g. from onChange */
+  lut: PartialLUTData;
+  /**
+   * How each LUT table is applied (default Master, Red, Green, Blue).
+   * Luminance and HSL curves cannot be expressed as an SVG filter.
+   */
+  channels?: ChannelDefinition[];
+  /** Content the filter is applied to */
+  children?: ReactNode;
+  /** Filter element id (generated when omitted); letters, digits, `_` and `-` */
+  id?: string;
+  /** Styles for the wrapper element */
+  style?: CSSProperties;
+  /** Class name for the wrapper element */
+  className?: string;
+}
+
+/**
+ * Props for the PointInspector component
+ */
+export interface PointInspectorProps {
+  /** Points of the channel being edited (0-255) */
+  points: CurvePoint[];
+  channel: Channel;
+  /** Accessible channel name (defaults to the built-in label or the id) */
+  channelLabel?: string;
+  /** Index of the selected point in x order */
+  selectedIndex: number | null;
+  /** Called when add/delete changes which point is selected */
+  onSelectedIndexChange?: (index: number | null) => void;
+  onAddPoint: (channel: Channel, point: CurvePoint) => void;
+  onRemovePoint: (channel: Channel, index: number) => void;
+  onUpdatePoint: (channel: Channel, index: number, point: CurvePoint) => void;
+  /** Used to place added points on the curve */
+  interpolation?: Interpolation;
+  /** The curve's x-axis; names the input field and wraps hue curves */
+  axis?: CurveAxis;
+  /** Show and accept values as 0-255 or 0-1 */
+  coordinateMode?: CoordinateMode;
+  style?: InspectorStyle;
+  disabled?: boolean;
+}
+
+/**
+ * 8-bit pixel buffer (e.g. ImageData.data or a decoded image)
+ */
+export type PixelBuffer = Uint8Array | Uint8ClampedArray;
+
+/**
+ * Rectangular region of an image, in pixels
+ */
+export interface PixelRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Options for applying a LUT to a raw pixel buffer
+ */
+export interface ApplyLUTBufferOptions<T extends PixelBuffer = PixelBuffer> {
+  /** Components per pixel: 4 for RGBA (default), 3 for RGB */
+  channels?: 3 | 4;
+  /** Image width in pixels; required for stride and region */
+  width?: number;
+  /** Image height in pixels (default derived from buffer length) */
+  height?: number;
+  /** Bytes per row (default width * channels) */
+  stride?: number;
+  /** Only process this region */
+  region?: PixelRegion;
+  /** Write here instead of in place; pixels outside the region are not written */
+  destination?: T;
+  /** RGBA data has premultiplied alpha */
+  premultiplied?: boolean;
+  /** How each LUT table is applied (default Master, Red, Green, Blue) */
+  curveChannels?: ChannelDefinition[];
+}
+
+/**
+ * Options for applying a LUT to ImageData
+ */
+export interface ApplyLUTImageDataOptions {
+  /** Only process this region */
+  region?: PixelRegion;
+  /** Write here instead of in place (must match source dimensions) */
+  destination?: ImageData;
+  /** How each LUT table is applied (default Master, Red, Green, Blue) */
+  curveChannels?: ChannelDefinition[];
+}
+
+/**
+ * Image sources accepted by the LUT processor
+ */
+export type LUTProcessorInput = ImageData | ImageBitmap | OffscreenCanvas;
+
+/**
+ * Progress reported after each image of a batch
+ */
+export interface LUTProgress {
+  /** Index of the image that just finished */
+  index: number;
+  /** Number of images finished so far */
+  completed: number;
+  /** Number of images in the batch */
+  total: number;
+}
+
+/**
+ * Options for creating a LUT processor
+ */
+export interface LUTProcessorOptions {
+  /** Use a Web Worker when available (default true) */
+  useWorker?: boolean;
+}
+
+/**
+ * Options for a single process or render call
+ */
+export interface LUTProcessOptions {
+  /** Cancel the remaining work */
+  signal?: AbortSignal;
+  /** Called after each image */
+  onProgress?: (progress: LUTProgress) => void;
+  /**
+   * Hand input buffers/bitmaps to the worker instead of copying them; the
+   * inputs are unusable afterwards (default true, false for render)
+   */
+  transfer?: boolean;
+  /**
+   * How each LUT table is applied (default Master, Red, Green, Blue).
+   * LUTs with luminance or HSL curves are applied on the calling thread.
+   */
+  curveChannels?: ChannelDefinition[];
+}
+
+/**
+ * Off-main-thread LUT processor
+ */
+export interface LUTProcessor {
+  /** Whether work runs in a Web Worker (false for the synchronous fallback) */
+  usesWorker: boolean;
+  /** Apply a LUT to one or more images, in order */
+  process: (
+    inputs: LUTProcessorInput | LUTProcessorInput[],
+    lut: PartialLUTData,
+    options?: LUTProcessOptions
+  ) => Promise<ImageData[]>;
+  /**
+   * Render a preview, coalescing rapid calls: a call superseded by a newer
+   * one before it starts resolves with null
+   */
+  render: (
+    input: LUTProcessorInput,
+    lut: PartialLUTData,
+    options?: LUTProcessOptions
+  ) => Promise<ImageData | null>;
+  /** Stop the worker and reject outstanding work */
+  terminate: () => void;
 }
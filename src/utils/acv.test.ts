@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { parseACV, readACVCurves, serializeACV } from './acv';
+
+const points = {
+  master: [
+    { x: 0, y: 0 },
+    { x: 128, y: 140 },
+    { x: 255, y: 255 },
+  ],
+  red: [
+    { x: 0, y: 15 },
+    { x: 255, y: 240 },
+  ],
+  green: [
+    { x: 0, y: 0 },
+    { x: 255, y: 255 },
+  ],
+  blue: [
+    { x: 0, y: 0 },
+    { x: 60, y: 40 },
+    { x: 200, y: 220 },
+    { x: 255, y: 255 },
+  ],
+};
+
+describe('serializeACV / parseACV', () => {
+  it('round-trips channel points', () => {
+    expect(parseACV(serializeACV(points))).toEqual(points);
+  });
+
+  it('writes version 4 with five curves, output before input', () => {
+    const bytes = serializeACV(points);
+    const view = new DataView(bytes.buffer);
+    expect(view.getUint16(0)).toBe(4);
+    expect(view.getUint16(2)).toBe(5);
+    // Master point count, then each point as output then input
+    expect(view.getUint16(4)).toBe(3);
+    expect(view.getUint16(10)).toBe(140);
+    expect(view.getUint16(12)).toBe(128);
+    expect(readACVCurves(bytes)).toHaveLength(5);
+  });
+
+  it('rounds coordinates and sorts points', () => {
+    const parsed = parseACV(
+      serializeACV({
+        red: [
+          { x: 255, y: 255 },
+          { x: 99.6, y: 10.2 },
+          { x: 0, y: 0 },
+        ],
+      })
+    );
+    expect(parsed.red).toEqual([
+      { x: 0, y: 0 },
+      { x: 100, y: 10 },
+      { x: 255, y: 255 },
+    ]);
+    expect(parsed.master).toEqual(points.green);
+  });
+
+  it('rejects truncated and unknown files', () => {
+    const bytes = serializeACV(points);
+    expect(() => parseACV(bytes.slice(0, 9))).toThrow('unexpected end of data');
+    expect(() => parseACV(new Uint8Array([0, 2, 0, 0]))).toThrow(
+      'unsupported version 2'
+    );
+  });
+});
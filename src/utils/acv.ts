@@ -0,0 +1,114 @@
+import { ChannelPoints, CurvePoint } from '../types';
+import { clamp, getDefaultPoints, sortPoints } from './curve';
+
+/**
+ * ACV curve order: composite first, then the individual channels
+ */
+const ACV_CHANNEL_ORDER = ['master', 'red', 'green', 'blue'] as const;
+
+/**
+ * Photoshop writes five curves for RGB documents; the fifth is unused
+ */
+const ACV_CURVE_COUNT = 5;
+
+const ACV_VERSION = 4;
+
+function toBytes(data: ArrayBuffer | Uint8Array): Uint8Array {
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+}
+
+/**
+ * Read every curve stored in a Photoshop `.acv` file, including any extra
+ * channels beyond composite/R/G/B (e.g. from CMYK presets)
+ */
+export function readACVCurves(data: ArrayBuffer | Uint8Array): CurvePoint[][] {
+  const bytes = toBytes(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const readUint16 = (): number => {
+    if (offset + 2 > view.byteLength) {
+      throw new Error('Invalid .acv file: unexpected end of data');
+    }
+    const value = view.getUint16(offset, false);
+    offset += 2;
+    return value;
+  };
+
+  const version = readUint16();
+  if (version !== 1 && version !== 4) {
+    throw new Error(`Invalid .acv file: unsupported version ${version}`);
+  }
+
+  const curveCount = readUint16();
+  const curves: CurvePoint[][] = [];
+
+  for (let c = 0; c < curveCount; c++) {
+    const pointCount = readUint16();
+    const points: CurvePoint[] = [];
+
+    for (let p = 0; p < pointCount; p++) {
+      // Each point is stored as output then input
+      const y = readUint16();
+      const x = readUint16();
+      points.push({ x: clamp(x, 0, 255), y: clamp(y, 0, 255) });
+    }
+
+    curves.push(sortPoints(points));
+  }
+
+  return curves;
+}
+
+/**
+ * Parse a Photoshop `.acv` file into channel points. The composite curve
+ * maps to master; curves past blue are ignored, and channels missing from
+ * the file (or with fewer than 2 points) fall back to the diagonal.
+ */
+export function parseACV(data: ArrayBuffer | Uint8Array): ChannelPoints {
+  const curves = readACVCurves(data);
+  const result = {} as ChannelPoints;
+
+  ACV_CHANNEL_ORDER.forEach((channel, i) => {
+    const curve = curves[i];
+    result[channel] = curve && curve.length >= 2 ? curve : getDefaultPoints();
+  });
+
+  return result;
+}
+
+/**
+ * Serialize channel points to a Photoshop `.acv` file
+ */
+export function serializeACV(points: Partial<ChannelPoints>): Uint8Array {
+  const curves: CurvePoint[][] = [];
+  for (let i = 0; i < ACV_CURVE_COUNT; i++) {
+    const channel = ACV_CHANNEL_ORDER[i];
+    const curve = channel && points[channel];
+    curves.push(sortPoints(curve || getDefaultPoints()));
+  }
+
+  const size =
+    4 + curves.reduce((sum, curve) => sum + 2 + curve.length * 4, 0);
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  const writeUint16 = (value: number) => {
+    view.setUint16(offset, value, false);
+    offset += 2;
+  };
+
+  writeUint16(ACV_VERSION);
+  writeUint16(curves.length);
+
+  for (const curve of curves) {
+    writeUint16(curve.length);
+    for (const point of curve) {
+      writeUint16(clamp(Math.round(point.y), 0, 255));
+      writeUint16(clamp(Math.round(point.x), 0, 255));
+    }
+  }
+
+  return bytes;
+}
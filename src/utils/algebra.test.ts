@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  blendLUTs,
+  composeLUTs,
+  invertLUT,
+  scaleLUTIntensity,
+} from './algebra';
+import { generateChannelLUT, getDefaultChannelPoints } from './curve';
+
+const identity = Uint8Array.from({ length: 256 }, (_, i) => i);
+const invert = Uint8Array.from({ length: 256 }, (_, i) => 255 - i);
+const brighten = generateChannelLUT([
+  { x: 0, y: 0 },
+  { x: 128, y: 170 },
+  { x: 255, y: 255 },
+]);
+
+describe('composeLUTs', () => {
+  it('applies the first grade, then the second', () => {
+    const lut = composeLUTs({ red: brighten }, { red: invert });
+    for (const i of [0, 50, 128, 255]) {
+      expect(lut.red[i]).toBe(255 - brighten[i]);
+    }
+    expect(lut.green).toEqual(identity);
+  });
+
+  it('folds master into R/G/B and leaves master as identity', () => {
+    const lut = composeLUTs({ master: brighten }, {});
+    expect(lut.master).toEqual(identity);
+    expect(lut.red).toEqual(brighten);
+    expect(lut.blue).toEqual(brighten);
+  });
+
+  it('accepts control points', () => {
+    const points = getDefaultChannelPoints();
+    const lut = composeLUTs(points, { red: invert });
+    expect(lut.red).toEqual(invert);
+  });
+
+  it('rejects tables that are not 256 8-bit entries', () => {
+    expect(() => composeLUTs({ red: new Uint8Array(16) }, {})).toThrow(
+      '"red" is a Uint8Array of 16'
+    );
+  });
+});
+
+describe('invertLUT', () => {
+  it('undoes an invertible grade', () => {
+    const { lut, warnings } = invertLUT({ red: brighten });
+    const undone = composeLUTs({ red: brighten }, lut);
+
+    expect(warnings.filter((w) => w.channel === 'red')).toEqual([]);
+    for (let i = 0; i < 256; i++) {
+      expect(Math.abs(undone.red[i] - i)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('warns about flat runs and curves that turn back', () => {
+    const flat = Uint8Array.from({ length: 256 }, (_, i) =>
+      Math.min(i, 200)
+    );
+    const solarize = Uint8Array.from({ length: 256 }, (_, i) =>
+      i < 128 ? i * 2 : (255 - i) * 2
+    );
+    const { warnings } = invertLUT({ red: flat, green: solarize });
+    const kinds = warnings.map(({ channel, kind }) => `${channel}:${kind}`);
+
+    expect(kinds).toContain('red:flat');
+    expect(kinds).toContain('red:range');
+    expect(kinds).toContain('green:nonMonotonic');
+  });
+});
+
+describe('blendLUTs / scaleLUTIntensity', () => {
+  it('blends table by table', () => {
+    const half = blendLUTs({ red: identity }, { red: invert }, 0.5);
+    expect(half.red?.[0]).toBe(128);
+    expect(half.red?.[255]).toBe(128);
+  });
+
+  it('scales a grade toward the identity', () => {
+    expect(scaleLUTIntensity({ red: invert }, 1).red).toEqual(invert);
+    expect(scaleLUTIntensity({ red: invert }, 0).red).toEqual(identity);
+    expect(scaleLUTIntensity({ red: invert }, 2).red).toEqual(invert);
+  });
+});
@@ -0,0 +1,255 @@
+import {
+  Channel,
+  ChannelDefinition,
+  ChannelPoints,
+  CurveAlgebraOptions,
+  CurveInversionWarning,
+  LUTData,
+  LUTInverse,
+  PartialLUTData,
+} from '../types';
+import {
+  generateLUT,
+  getChannelDefinition,
+  clamp,
+  DEFAULT_CHANNELS,
+} from './curve';
+import { getCurveAxis, SECONDARY_BASELINE } from './hsl';
+import { precomposeLUT } from './image';
+
+/**
+ * Flat runs at least this many inputs wide are reported by invertLUT.
+ * Shorter ones come from rounding shallow curves to 8 bits.
+ */
+const FLAT_RUN_WARNING_WIDTH = 8;
+
+/**
+ * Points are arrays; LUT tables are typed arrays
+ */
+function isPointSource(
+  source: PartialLUTData | ChannelPoints
+): source is ChannelPoints {
+  return Object.values(source).some((value) => Array.isArray(value));
+}
+
+/**
+ * Points become an 8-bit LUT. LUTs must already be 8-bit with 256 entries
+ * per table: tables are used as indices into each other, so other sizes and
+ * bit depths would be truncated or read out of range.
+ */
+function resolveLUT(
+  source: PartialLUTData | ChannelPoints,
+  options: CurveAlgebraOptions
+): PartialLUTData {
+  const { interpolation = 'monotone', channels = DEFAULT_CHANNELS } = options;
+  if (isPointSource(source)) {
+    return generateLUT(source, interpolation, {}, channels);
+  }
+
+  for (const [channel, table] of Object.entries(source)) {
+    if (table === undefined) continue;
+    if (!(table instanceof Uint8Array) || table.length !== 256) {
+      throw new Error(
+        `Curve algebra needs 8-bit 256-entry tables; "${channel}" is a ${table.constructor.name} of ${table.length}`
+      );
+    }
+  }
+  return source;
+}
+
+/**
+ * Table that leaves a channel unchanged: the diagonal, or the flat
+ * baseline for HSL secondary curves
+ */
+function getNeutralTable(
+  channel: Channel,
+  channels: readonly ChannelDefinition[]
+): Uint8Array {
+  const { apply } = getChannelDefinition(channel, channels);
+  const table = new Uint8Array(256);
+  if (getCurveAxis(apply) === 'value') {
+    for (let i = 0; i < 256; i++) table[i] = i;
+  } else {
+    table.fill(SECONDARY_BASELINE);
+  }
+  return table;
+}
+
+/**
+ * Apply one grade and then another, as a single LUT. Master is folded into
+ * the R/G/B tables first (see precomposeLUT), so the result is exact and
+ * has an identity master. Luminance and HSL curves cannot be folded and
+ * are left out.
+ */
+export function composeLUTs(
+  first: PartialLUTData | ChannelPoints,
+  second: PartialLUTData | ChannelPoints,
+  options: CurveAlgebraOptions = {}
+): LUTData {
+  const { channels = DEFAULT_CHANNELS } = options;
+  const a = precomposeLUT(resolveLUT(first, options), channels);
+  const b = precomposeLUT(resolveLUT(second, options), channels);
+
+  const result: PartialLUTData = {};
+  for (const channel of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const inner = a[channel] ?? getNeutralTable(channel, channels);
+    const outer = b[channel] ?? getNeutralTable(channel, channels);
+    const table = new Uint8Array(256);
+    for (let i = 0; i < 256; i++) table[i] = outer[inner[i]];
+    result[channel] = table;
+  }
+  // Precomposed LUTs always hold master and R/G/B, so the result does too
+  return result as LUTData;
+}
+
+/**
+ * Invert one 256-entry table. Each segment between neighbouring inputs is
+ * treated as linear; outputs reached by several inputs take their average
+ * and outputs never reached take the input of the nearest one that is.
+ */
+function invertTable(
+  table: ArrayLike<number>,
+  channel: Channel,
+  warnings: CurveInversionWarning[]
+): Uint8Array {
+  const sums = new Float64Array(256);
+  const counts = new Uint32Array(256);
+  const add = (value: number, input: number) => {
+    sums[value] += input;
+    counts[value]++;
+  };
+
+  // Overall direction; a negative is invertible, a solarize is not
+  const direction = table[255] >= table[0] ? 1 : -1;
+  let reversal: number | null = null;
+
+  for (let x = 0; x < 255; x++) {
+    const a = table[x];
+    const b = table[x + 1];
+    if (a === b) {
+      add(a, x);
+      continue;
+    }
+    if (reversal === null && Math.sign(b - a) !== direction) {
+      reversal = x;
+    }
+
+    // Every output the segment passes through, excluding its far end
+    const step = b > a ? 1 : -1;
+    for (let v = a; v !== b; v += step) {
+      add(v, x + (v - a) / (b - a));
+    }
+  }
+  add(table[255], 255);
+
+  // Flat runs lose information: report the wide ones
+  let runStart = 0;
+  for (let x = 1; x <= 256; x++) {
+    if (x < 256 && table[x] === table[runStart]) continue;
+    const runEnd = x - 1;
+    if (runEnd - runStart + 1 >= FLAT_RUN_WARNING_WIDTH) {
+      const value = table[runStart];
+      const middle = Math.round(sums[value] / counts[value]);
+      warnings.push({
+        channel,
+        kind: 'flat',
+        message: `${channel}: inputs ${runStart}-${runEnd} all give ${value}; the inverse maps ${value} to ${middle}`,
+      });
+    }
+    runStart = x;
+  }
+
+  if (reversal !== null) {
+    warnings.push({
+      channel,
+      kind: 'nonMonotonic',
+      message: `${channel}: the curve turns back at input ${reversal}, so some outputs come from several inputs; their inverse is the average`,
+    });
+  }
+
+  const result = new Uint8Array(256);
+  let low = 255;
+  let high = 0;
+  for (let v = 0; v < 256; v++) {
+    if (counts[v] === 0) continue;
+    low = Math.min(low, v);
+    high = Math.max(high, v);
+    result[v] = clamp(Math.round(sums[v] / counts[v]), 0, 255);
+  }
+
+  // Segments are continuous, so only outputs outside the curve's range
+  // are never reached: they take the input of the nearest end
+  result.fill(result[low], 0, low);
+  result.fill(result[high], high + 1);
+
+  if (low > 0 || high < 255) {
+    warnings.push({
+      channel,
+      kind: 'range',
+      message: `${channel}: outputs only cover ${low}-${high}; values outside map to the nearest end`,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Approximate inverse of a grade, e.g. to undo it. Master is folded into
+ * the R/G/B tables first, as in composeLUTs. Channels that are flat, turn
+ * back on themselves or don't cover 0-255 cannot be inverted exactly and
+ * are listed in warnings.
+ */
+export function invertLUT(
+  source: PartialLUTData | ChannelPoints,
+  options: CurveAlgebraOptions = {}
+): LUTInverse {
+  const { channels = DEFAULT_CHANNELS } = options;
+  const lut = precomposeLUT(resolveLUT(source, options), channels);
+  const warnings: CurveInversionWarning[] = [];
+
+  const result: PartialLUTData = {};
+  for (const [channel, table] of Object.entries(lut)) {
+    if (table) result[channel] = invertTable(table, channel, warnings);
+  }
+  return { lut: result as LUTData, warnings };
+}
+
+/**
+ * Blend two grades table by table: 0 gives `from`, 1 gives `to`. A channel
+ * missing from one side is blended with its neutral table.
+ */
+export function blendLUTs(
+  from: PartialLUTData | ChannelPoints,
+  to: PartialLUTData | ChannelPoints,
+  amount: number,
+  options: CurveAlgebraOptions = {}
+): PartialLUTData {
+  const { channels = DEFAULT_CHANNELS } = options;
+  const a = resolveLUT(from, options);
+  const b = resolveLUT(to, options);
+  const t = clamp(amount, 0, 1);
+
+  const result: PartialLUTData = {};
+  for (const channel of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const start = a[channel] ?? getNeutralTable(channel, channels);
+    const end = b[channel] ?? getNeutralTable(channel, channels);
+    const table = new Uint8Array(256);
+    for (let i = 0; i < 256; i++) {
+      table[i] = Math.round(start[i] + (end[i] - start[i]) * t);
+    }
+    result[channel] = table;
+  }
+  return result;
+}
+
+/**
+ * Scale a grade toward no change: 1 keeps it, 0 gives the identity (the
+ * flat baseline for HSL curves)
+ */
+export function scaleLUTIntensity(
+  source: PartialLUTData | ChannelPoints,
+  intensity: number,
+  options: CurveAlgebraOptions = {}
+): PartialLUTData {
+  return blendLUTs({}, source, intensity, options);
+}
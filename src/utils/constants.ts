@@ -1,4 +1,4 @@
-import { RGBCurveStyles } from '../types';
+import { RGBCurveStyles, PresetPickerStyle } from '../types';
 
 /**
  * Default curve width
@@ -92,6 +92,30 @@ export const DEFAULT_STYLES: Required<RGBCurveStyles> = {
     show: false,
     opacity: 0.3,
     fillColor: '#666666',
+    scale: 'linear',
+    mode: 'channel',
+    variant: 'filled',
+    outlineWidth: 1,
+    showClipping: false,
+    clippingColor: '#ffffff',
+    channelColors: {
+      red: '#ff0000',
+      green: '#00ff00',
+      blue: '#0000ff',
+    },
+  },
+  inspector: {
+    background: '#252525',
+    borderRadius: 8,
+    gap: 8,
+    fontSize: 12,
+    labelColor: '#808080',
+    inputBackground: '#0d0d0d',
+    inputColor: '#e0e0e0',
+    inputBorder: '#404040',
+    errorColor: '#ff6b6b',
+    buttonBackground: '#404040',
+    buttonColor: '#ffffff',
   },
 };
 
@@ -110,7 +134,74 @@ export const CHANNEL_COLORS = {
  */
 export const POINT_HIT_THRESHOLD = 12;
 
+/**
+ * Opacity of inactive channel curves when all channels are shown
+ */
+export const INACTIVE_CURVE_OPACITY = 0.35;
+
+/**
+ * Opacity of the hue rainbow or luma gradient behind secondary curves
+ */
+export const AXIS_BACKGROUND_OPACITY = 0.3;
+
+/**
+ * Hit test threshold for touch and pen input (in pixels)
+ */
+export const COARSE_POINT_HIT_THRESHOLD = 24;
+
+/**
+ * Hold duration that deletes a point on touch (in milliseconds)
+ */
+export const LONG_PRESS_DURATION = 600;
+
+/**
+ * Movement allowed during a long-press before it becomes a drag (in pixels)
+ */
+export const LONG_PRESS_MOVE_TOLERANCE = 8;
+
 /**
  * Minimum distance between points (in x-axis)
  */
 export const MIN_POINT_DISTANCE = 5;
+
+/**
+ * Default maximum number of undo steps
+ */
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+/**
+ * Default moving-average radius for smoothing pencil-drawn tables
+ */
+export const DEFAULT_SMOOTH_RADIUS = 3;
+
+/**
+ * Default fit tolerance (0-255 units) when converting pencil-drawn tables
+ * to points. A hand-drawn stroke wobbles by a level or two, which tighter
+ * fits can't follow with points MIN_POINT_DISTANCE apart.
+ */
+export const DEFAULT_PENCIL_FIT_TOLERANCE = 3;
+
+/**
+ * Category given to presets registered without one
+ */
+export const CUSTOM_PRESET_CATEGORY = 'Custom';
+
+/**
+ * Default preset picker styles, matching the editor's dark theme
+ */
+export const DEFAULT_PRESET_PICKER_STYLE: Required<PresetPickerStyle> = {
+  background: '#1a1a1a',
+  borderRadius: 8,
+  gap: 8,
+  fontSize: 12,
+  labelColor: '#e0e0e0',
+  categoryColor: '#808080',
+  itemBackground: '#252525',
+  activeItemBackground: '#404040',
+  previewBackground: '#0d0d0d',
+  inputBackground: '#0d0d0d',
+  inputColor: '#e0e0e0',
+  inputBorder: '#404040',
+  buttonBackground: '#404040',
+  buttonColor: '#ffffff',
+};
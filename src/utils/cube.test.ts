@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { exportCubeLUT, generateCubeLUT, parseCubeLUT } from './cube';
+import { generateLUT } from './curve';
+
+const points = {
+  master: [
+    { x: 0, y: 0 },
+    { x: 255, y: 255 },
+  ],
+  red: [
+    { x: 0, y: 20 },
+    { x: 128, y: 150 },
+    { x: 255, y: 255 },
+  ],
+  green: [
+    { x: 0, y: 0 },
+    { x: 255, y: 230 },
+  ],
+  blue: [
+    { x: 0, y: 0 },
+    { x: 255, y: 255 },
+  ],
+};
+
+describe('exportCubeLUT / parseCubeLUT', () => {
+  it('round-trips a 1D cube', () => {
+    const text = exportCubeLUT(points, { title: 'Warm' });
+    const cube = parseCubeLUT(text);
+    const lut = generateLUT(points);
+
+    expect(cube.title).toBe('Warm');
+    expect(cube.type).toBe('1D');
+    expect(cube.size).toBe(256);
+    for (const i of [0, 64, 128, 200, 255]) {
+      expect(cube.data[i * 3] * 255).toBeCloseTo(lut.red[i], 3);
+      expect(cube.data[i * 3 + 1] * 255).toBeCloseTo(lut.green[i], 3);
+      expect(cube.data[i * 3 + 2] * 255).toBeCloseTo(lut.blue[i], 3);
+    }
+  });
+
+  it('round-trips a 3D cube with red changing fastest', () => {
+    const generated = generateCubeLUT(points, { type: '3D', size: 5 });
+    const cube = parseCubeLUT(exportCubeLUT(points, { type: '3D', size: 5 }));
+
+    expect(cube.type).toBe('3D');
+    expect(cube.size).toBe(5);
+    expect(cube.data).toHaveLength(5 * 5 * 5 * 3);
+    cube.data.forEach((value, i) => {
+      expect(value).toBeCloseTo(generated.data[i], 5);
+    });
+    // Second entry steps red only
+    expect(cube.data[3]).not.toBe(cube.data[0]);
+    expect(cube.data[4]).toBe(cube.data[1]);
+  });
+
+  it('reads Resolve-style input ranges and skips comments', () => {
+    const cube = parseCubeLUT(
+      [
+        '# comment',
+        'LUT_1D_SIZE 2',
+        'LUT_1D_INPUT_RANGE 0 2',
+        '0 0 0',
+        '1 1 1',
+      ].join('\n')
+    );
+    expect(cube.domainMin).toEqual([0, 0, 0]);
+    expect(cube.domainMax).toEqual([2, 2, 2]);
+  });
+
+  it('rejects malformed files', () => {
+    expect(() => parseCubeLUT('0 0 0\n1 1 1')).toThrow(
+      'missing LUT_1D_SIZE or LUT_3D_SIZE'
+    );
+    expect(() => parseCubeLUT('LUT_1D_SIZE 3\n0 0 0\n1 1 1')).toThrow(
+      'expected 3 entries, found 2'
+    );
+    expect(() => parseCubeLUT('LUT_1D_SIZE 2\n0 0\n1 1 1')).toThrow(
+      'bad data on line 2'
+    );
+  });
+});
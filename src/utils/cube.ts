@@ -0,0 +1,418 @@
+import {
+  ChannelPoints,
+  CubeExportOptions,
+  CubeLUT,
+  LUTData,
+  PartialLUTData,
+} from '../types';
+import {
+  applyLUTToPixel,
+  clamp,
+  generateLUT,
+  DEFAULT_CHANNELS,
+} from './curve';
+import { getUnfoldableChannels, precomposeLUT } from './image';
+
+const DEFAULT_1D_SIZE = 256;
+const DEFAULT_3D_SIZE = 33;
+const DEFAULT_PRECISION = 6;
+
+/**
+ * Check whether a curve source is already a LUT (as opposed to control
+ * points): LUT tables are typed arrays, point lists are plain arrays
+ */
+export function isLUTData(
+  source: PartialLUTData | ChannelPoints
+): source is PartialLUTData {
+  return Object.values(source).some((value) => ArrayBuffer.isView(value));
+}
+
+/**
+ * Sample a 256-entry table at a fractional input (0-255) with linear
+ * interpolation. Integer inputs return the exact table entry, matching
+ * the lookup done by applyLUT.
+ */
+function sampleTable(table: ArrayLike<number>, value: number): number {
+  const v = clamp(value, 0, 255);
+  const i0 = Math.floor(v);
+  const i1 = Math.min(i0 + 1, 255);
+  const t = v - i0;
+  return table[i0] + (table[i1] - table[i0]) * t;
+}
+
+/**
+ * Map a normalized sample position (0-1) inside the domain to 0-255 input
+ */
+function domainToInput(t: number, min: number, max: number): number {
+  return clamp((min + t * (max - min)) * 255, 0, 255);
+}
+
+/**
+ * Generate a `.cube` LUT from a LUT or control points.
+ * 1D cubes hold the per-channel curves with master folded in; 3D cubes
+ * bake the full RGB transform sampled on a size³ lattice.
+ */
+export function generateCubeLUT(
+  source: PartialLUTData | ChannelPoints,
+  options: CubeExportOptions = {}
+): CubeLUT {
+  const {
+    type = '1D',
+    title,
+    domainMin = [0, 0, 0],
+    domainMax = [1, 1, 1],
+    interpolation = 'monotone',
+    channels = DEFAULT_CHANNELS,
+  } = options;
+  const size = options.size ?? (type === '1D' ? DEFAULT_1D_SIZE : DEFAULT_3D_SIZE);
+
+  if (!Number.isInteger(size) || size < 2) {
+    throw new Error(`Invalid cube size: ${size}`);
+  }
+
+  const lut = isLUTData(source)
+    ? source
+    : generateLUT(source, interpolation, {}, channels);
+  const unfoldable = getUnfoldableChannels(lut, channels);
+
+  let data: Float32Array;
+
+  if (type === '1D') {
+    if (unfoldable.length > 0) {
+      const labels = unfoldable.map(({ label }) => label).join(', ');
+      throw new Error(
+        `1D cubes cannot hold luminance or HSL curves (${labels}); export a 3D cube instead`
+      );
+    }
+
+    // Master and other per-component curves folded into R/G/B; channels
+    // without a table stay unchanged
+    const { red, green, blue } = precomposeLUT(lut, channels);
+    const tables = [red, green, blue];
+    data = new Float32Array(size * 3);
+    for (let i = 0; i < size; i++) {
+      const t = i / (size - 1);
+      for (let c = 0; c < 3; c++) {
+        const input = domainToInput(t, domainMin[c], domainMax[c]);
+        data[i * 3 + c] = sampleTable(tables[c], input) / 255;
+      }
+    }
+  } else if (unfoldable.length > 0) {
+    // Luminance and HSL curves mix the components, so apply the whole LUT
+    // at every lattice point (rounded to the nearest 8-bit input)
+    data = new Float32Array(size * size * size * 3);
+    let offset = 0;
+    for (let b = 0; b < size; b++) {
+      const inB = domainToInput(b / (size - 1), domainMin[2], domainMax[2]);
+      for (let g = 0; g < size; g++) {
+        const inG = domainToInput(g / (size - 1), domainMin[1], domainMax[1]);
+        for (let r = 0; r < size; r++) {
+          const inR = domainToInput(r / (size - 1), domainMin[0], domainMax[0]);
+          const [outR, outG, outB] = applyLUTToPixel(
+            Math.round(inR),
+            Math.round(inG),
+            Math.round(inB),
+            255,
+            lut,
+            channels
+          );
+          data[offset++] = outR / 255;
+          data[offset++] = outG / 255;
+          data[offset++] = outB / 255;
+        }
+      }
+    }
+  } else {
+    // Axes are separable, so evaluate each once and combine on the lattice
+    const { red, green, blue } = precomposeLUT(lut, channels);
+    const axes = [red, green, blue].map((table, c) => {
+      const values = new Float32Array(size);
+      for (let i = 0; i < size; i++) {
+        const input = domainToInput(i / (size - 1), domainMin[c], domainMax[c]);
+        values[i] = sampleTable(table, input) / 255;
+      }
+      return values;
+    });
+
+    data = new Float32Array(size * size * size * 3);
+    let offset = 0;
+    // Red changes fastest, then green, then blue
+    for (let b = 0; b < size; b++) {
+      for (let g = 0; g < size; g++) {
+        for (let r = 0; r < size; r++) {
+          data[offset++] = axes[0][r];
+          data[offset++] = axes[1][g];
+          data[offset++] = axes[2][b];
+        }
+      }
+    }
+  }
+
+  return {
+    title,
+    type,
+    size,
+    domainMin: [...domainMin],
+    domainMax: [...domainMax],
+    data,
+  };
+}
+
+/**
+ * Serialize a CubeLUT to `.cube` file contents
+ */
+export function serializeCubeLUT(
+  cube: CubeLUT,
+  precision: number = DEFAULT_PRECISION
+): string {
+  const lines: string[] = [];
+  const format = (v: number) => v.toFixed(precision);
+
+  if (cube.title !== undefined) {
+    lines.push(`TITLE "${cube.title.replace(/"/g, "'")}"`);
+  }
+  lines.push(`LUT_${cube.type}_SIZE ${cube.size}`);
+  lines.push(`DOMAIN_MIN ${cube.domainMin.map(format).join(' ')}`);
+  lines.push(`DOMAIN_MAX ${cube.domainMax.map(format).join(' ')}`);
+  lines.push('');
+
+  for (let i = 0; i < cube.data.length; i += 3) {
+    lines.push(
+      `${format(cube.data[i])} ${format(cube.data[i + 1])} ${format(
+        cube.data[i + 2]
+      )}`
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Generate and serialize a `.cube` file in one step
+ */
+export function exportCubeLUT(
+  source: PartialLUTData | ChannelPoints,
+  options: CubeExportOptions = {}
+): string {
+  return serializeCubeLUT(
+    generateCubeLUT(source, options),
+    options.precision ?? DEFAULT_PRECISION
+  );
+}
+
+/**
+ * Parse three numbers from a keyword line
+ */
+function parseTriplet(
+  parts: string[],
+  lineNumber: number
+): [number, number, number] {
+  const values = parts.slice(1, 4).map(Number);
+  if (values.length !== 3 || values.some((v) => !Number.isFinite(v))) {
+    throw new Error(`Invalid .cube file: expected 3 numbers on line ${lineNumber}`);
+  }
+  return [values[0], values[1], values[2]];
+}
+
+/**
+ * Parse `.cube` file contents (1D or 3D)
+ */
+export function parseCubeLUT(text: string): CubeLUT {
+  let title: string | undefined;
+  let type: '1D' | '3D' | null = null;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const values: number[] = [];
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '' || line.startsWith('#')) continue;
+
+    const parts = line.split(/\s+/);
+    const keyword = parts[0].toUpperCase();
+    const lineNumber = i + 1;
+
+    if (keyword === 'TITLE') {
+      const match = line.match(/^TITLE\s+"(.*)"\s*$/i);
+      title = match ? match[1] : parts.slice(1).join(' ');
+    } else if (keyword === 'LUT_1D_SIZE' || keyword === 'LUT_3D_SIZE') {
+      if (type !== null) {
+        throw new Error(`Invalid .cube file: duplicate size on line ${lineNumber}`);
+      }
+      type = keyword === 'LUT_1D_SIZE' ? '1D' : '3D';
+      size = Number(parts[1]);
+      if (!Number.isInteger(size) || size < 2) {
+        throw new Error(`Invalid .cube file: bad size "${parts[1]}" on line ${lineNumber}`);
+      }
+    } else if (keyword === 'DOMAIN_MIN') {
+      domainMin = parseTriplet(parts, lineNumber);
+    } else if (keyword === 'DOMAIN_MAX') {
+      domainMax = parseTriplet(parts, lineNumber);
+    } else if (
+      keyword === 'LUT_1D_INPUT_RANGE' ||
+      keyword === 'LUT_3D_INPUT_RANGE'
+    ) {
+      // Resolve-style single range applied to all channels
+      const min = Number(parts[1]);
+      const max = Number(parts[2]);
+      if (!Number.isFinite(min) || !Number.isFinite(max)) {
+        throw new Error(`Invalid .cube file: bad input range on line ${lineNumber}`);
+      }
+      domainMin = [min, min, min];
+      domainMax = [max, max, max];
+    } else if (/^[-+.\d]/.test(keyword)) {
+      const triplet = parts.map(Number);
+      if (triplet.length !== 3 || triplet.some((v) => !Number.isFinite(v))) {
+        throw new Error(`Invalid .cube file: bad data on line ${lineNumber}`);
+      }
+      values.push(triplet[0], triplet[1], triplet[2]);
+    }
+    // Unknown keywords are ignored, as the spec allows
+  }
+
+  if (type === null) {
+    throw new Error('Invalid .cube file: missing LUT_1D_SIZE or LUT_3D_SIZE');
+  }
+
+  const expected = type === '1D' ? size : size * size * size;
+  if (values.length !== expected * 3) {
+    throw new Error(
+      `Invalid .cube file: expected ${expected} entries, found ${values.length / 3}`
+    );
+  }
+
+  return {
+    title,
+    type,
+    size,
+    domainMin,
+    domainMax,
+    data: new Float32Array(values),
+  };
+}
+
+/**
+ * Default tolerance (normalized 0-1) when checking 3D cube separability
+ */
+const DEFAULT_SEPARABILITY_TOLERANCE = 1 / 255;
+
+/**
+ * Index of an RGB triplet in 3D cube data (red changes fastest)
+ */
+function latticeIndex(size: number, r: number, g: number, b: number): number {
+  return (r + g * size + b * size * size) * 3;
+}
+
+/**
+ * Largest deviation of a 3D cube from a per-channel (separable) transform,
+ * i.e. how much each output channel depends on the other two inputs
+ */
+export function getCubeSeparabilityError(cube: CubeLUT): number {
+  if (cube.type === '1D') return 0;
+
+  const { size, data } = cube;
+  let maxError = 0;
+
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const i = latticeIndex(size, r, g, b);
+        const dr = Math.abs(data[i] - data[latticeIndex(size, r, 0, 0)]);
+        const dg = Math.abs(data[i + 1] - data[latticeIndex(size, 0, g, 0) + 1]);
+        const db = Math.abs(data[i + 2] - data[latticeIndex(size, 0, 0, b) + 2]);
+        maxError = Math.max(maxError, dr, dg, db);
+      }
+    }
+  }
+
+  return maxError;
+}
+
+/**
+ * Check whether a cube can be expressed as independent R/G/B curves
+ */
+export function isSeparableCube(
+  cube: CubeLUT,
+  tolerance: number = DEFAULT_SEPARABILITY_TOLERANCE
+): boolean {
+  return getCubeSeparabilityError(cube) <= tolerance;
+}
+
+/**
+ * Resample one channel of a cube axis into a 256-entry 8-bit table
+ */
+function resampleAxis(
+  axis: ArrayLike<number>,
+  min: number,
+  max: number
+): Uint8Array {
+  const size = axis.length;
+  const table = new Uint8Array(256);
+  const range = max - min || 1;
+
+  for (let i = 0; i < 256; i++) {
+    const pos = clamp(((i / 255 - min) / range) * (size - 1), 0, size - 1);
+    const i0 = Math.floor(pos);
+    const i1 = Math.min(i0 + 1, size - 1);
+    const value = axis[i0] + (axis[i1] - axis[i0]) * (pos - i0);
+    table[i] = clamp(Math.round(value * 255), 0, 255);
+  }
+
+  return table;
+}
+
+/**
+ * Convert a cube into LUTData. The R/G/B curves carry the whole transform
+ * and master is left as identity. 3D cubes must be separable; otherwise an
+ * error is thrown, since per-channel curves cannot represent them.
+ */
+export function cubeToLUTData(
+  cube: CubeLUT,
+  tolerance: number = DEFAULT_SEPARABILITY_TOLERANCE
+): LUTData {
+  const { size, data } = cube;
+  const axes = [0, 1, 2].map(() => new Float32Array(size));
+
+  if (cube.type === '1D') {
+    for (let i = 0; i < size; i++) {
+      axes[0][i] = data[i * 3];
+      axes[1][i] = data[i * 3 + 1];
+      axes[2][i] = data[i * 3 + 2];
+    }
+  } else {
+    const error = getCubeSeparabilityError(cube);
+    if (error > tolerance) {
+      throw new Error(
+        `3D LUT is not separable into per-channel curves ` +
+          `(max cross-channel deviation ${error.toFixed(4)}, tolerance ${tolerance.toFixed(4)})`
+      );
+    }
+    for (let i = 0; i < size; i++) {
+      axes[0][i] = data[latticeIndex(size, i, 0, 0)];
+      axes[1][i] = data[latticeIndex(size, 0, i, 0) + 1];
+      axes[2][i] = data[latticeIndex(size, 0, 0, i) + 2];
+    }
+  }
+
+  const master = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) master[i] = i;
+
+  return {
+    master,
+    red: resampleAxis(axes[0], cube.domainMin[0], cube.domainMax[0]),
+    green: resampleAxis(axes[1], cube.domainMin[1], cube.domainMax[1]),
+    blue: resampleAxis(axes[2], cube.domainMin[2], cube.domainMax[2]),
+  };
+}
+
+/**
+ * Parse `.cube` file contents straight into LUTData
+ */
+export function importCubeLUT(
+  text: string,
+  tolerance: number = DEFAULT_SEPARABILITY_TOLERANCE
+): LUTData {
+  return cubeToLUTData(parseCubeLUT(text), tolerance);
+}
@@ -1,4 +1,27 @@
-import { CurvePoint, LUTData, ChannelPoints, Channel } from '../types';
+import {
+  CurvePoint,
+  LUTData,
+  PartialLUTData,
+  ChannelPoints,
+  Channel,
+  DefaultChannel,
+  ChannelApplication,
+  ChannelDefinition,
+  BuiltInInterpolation,
+  BezierHandle,
+  PointType,
+  Interpolation,
+  InterpolationFunction,
+  LUTArrayFor,
+  LUTOptions,
+  LUTOutputType,
+} from '../types';
+import { MIN_POINT_DISTANCE, CHANNEL_COLORS } from './constants';
+import {
+  applySecondaryTable,
+  getAxisDefaultPoints,
+  getCurveAxis,
+} from './hsl';
 
 /**
  * Clamp a value between min and max
@@ -18,15 +41,22 @@ export function getDefaultPoints(): CurvePoint[] {
 }
 
 /**
- * Get default points for all channels
+ * Get default points for all channels (Master, Red, Green, Blue unless
+ * another channel list is given). Channels given as definitions get the
+ * baseline for their axis, e.g. a flat line for hue curves.
  */
-export function getDefaultChannelPoints(): ChannelPoints {
-  return {
-    master: getDefaultPoints(),
-    red: getDefaultPoints(),
-    green: getDefaultPoints(),
-    blue: getDefaultPoints(),
-  };
+export function getDefaultChannelPoints(
+  channels: readonly (Channel | ChannelDefinition)[] = CHANNELS
+): ChannelPoints {
+  const result: Partial<ChannelPoints> = {};
+  for (const channel of channels) {
+    if (typeof channel === 'string') {
+      result[channel] = getDefaultPoints();
+    } else {
+      result[channel.id] = getAxisDefaultPoints(getCurveAxis(channel.apply));
+    }
+  }
+  return result as ChannelPoints;
 }
 
 /**
@@ -40,10 +70,12 @@ export function sortPoints(points: CurvePoint[]): CurvePoint[] {
  * Monotone cubic spline interpolation
  * This ensures the curve doesn't overshoot between control points
  * Based on Fritsch-Carlson method
+ * Pass round = false to keep sub-integer precision
  */
 export function monotoneCubicInterpolation(
   points: CurvePoint[],
-  x: number
+  x: number,
+  round: boolean = true
 ): number {
   const sorted = sortPoints(points);
   const n = sorted.length;
@@ -124,16 +156,18 @@ export function monotoneCubicInterpolation(
 
   const result = h00 * y0 + h10 * dx * m0 + h01 * y1 + h11 * dx * m1;
 
-  return clamp(Math.round(result), 0, 255);
+  return clamp(round ? Math.round(result) : result, 0, 255);
 }
 
 /**
  * Catmull-Rom spline interpolation
  * Smoother curves but may overshoot
+ * Pass round = false to keep sub-integer precision
  */
 export function catmullRomInterpolation(
   points: CurvePoint[],
-  x: number
+  x: number,
+  round: boolean = true
 ): number {
   const sorted = sortPoints(points);
   const n = sorted.length;
@@ -172,44 +206,601 @@ export function catmullRomInterpolation(
       (2 * p0.y - 5 * p1.y + 4 * p2.y - p3.y) * t2 +
       (-p0.y + 3 * p1.y - 3 * p2.y + p3.y) * t3);
 
-  return clamp(Math.round(result), 0, 255);
+  return clamp(round ? Math.round(result) : result, 0, 255);
 }
 
 /**
- * Generate LUT for a single channel
+ * Linear interpolation: straight segments between control points, for hard
+ * posterize-style curves
+ * Pass round = false to keep sub-integer precision
  */
-export function generateChannelLUT(
+export function linearInterpolation(
   points: CurvePoint[],
-  interpolation: 'monotone' | 'catmullRom' = 'monotone'
-): Uint8Array {
-  const lut = new Uint8Array(256);
-  const interpolate =
-    interpolation === 'monotone'
-      ? monotoneCubicInterpolation
-      : catmullRomInterpolation;
-
-  for (let i = 0; i < 256; i++) {
-    lut[i] = interpolate(points, i);
+  x: number,
+  round: boolean = true
+): number {
+  const sorted = sortPoints(points);
+  const n = sorted.length;
+
+  if (n === 0) return x;
+  if (n === 1) return sorted[0].y;
+
+  // Handle edge cases
+  if (x <= sorted[0].x) return sorted[0].y;
+  if (x >= sorted[n - 1].x) return sorted[n - 1].y;
+
+  // Find the segment containing x
+  let i = 0;
+  while (i < n - 1 && sorted[i + 1].x < x) {
+    i++;
   }
 
-  return lut;
+  const { x: x0, y: y0 } = sorted[i];
+  const { x: x1, y: y1 } = sorted[i + 1];
+  const dx = x1 - x0;
+  if (dx === 0) return y0;
+
+  const result = y0 + ((y1 - y0) * (x - x0)) / dx;
+
+  return clamp(round ? Math.round(result) : result, 0, 255);
 }
 
 /**
- * Generate LUT for all channels
+ * Natural cubic spline interpolation (zero curvature at the ends), as used
+ * by Photoshop's curves. Smooth through every point but may overshoot.
+ * Pass round = false to keep sub-integer precision
  */
-export function generateLUT(
-  channelPoints: ChannelPoints,
-  interpolation: 'monotone' | 'catmullRom' = 'monotone'
-): LUTData {
+export function naturalCubicInterpolation(
+  points: CurvePoint[],
+  x: number,
+  round: boolean = true
+): number {
+  // Points sharing an x would make the system singular
+  const sorted = sortPoints(points).filter(
+    (p, i, all) => i === 0 || p.x !== all[i - 1].x
+  );
+  const n = sorted.length;
+
+  if (n === 0) return x;
+  if (n === 1) return sorted[0].y;
+
+  // Handle edge cases
+  if (x <= sorted[0].x) return sorted[0].y;
+  if (x >= sorted[n - 1].x) return sorted[n - 1].y;
+
+  // Second derivatives at each point: solve the tridiagonal system with
+  // the natural end conditions (Thomas algorithm)
+  const m = new Array<number>(n).fill(0);
+  const u = new Array<number>(n).fill(0);
+  for (let i = 1; i < n - 1; i++) {
+    const prev = sorted[i - 1];
+    const cur = sorted[i];
+    const next = sorted[i + 1];
+    const sig = (cur.x - prev.x) / (next.x - prev.x);
+    const p = sig * m[i - 1] + 2;
+    const slopeChange =
+      (next.y - cur.y) / (next.x - cur.x) - (cur.y - prev.y) / (cur.x - prev.x);
+    m[i] = (sig - 1) / p;
+    u[i] = ((6 * slopeChange) / (next.x - prev.x) - sig * u[i - 1]) / p;
+  }
+  for (let i = n - 2; i >= 0; i--) {
+    m[i] = m[i] * m[i + 1] + u[i];
+  }
+
+  // Find the segment containing x
+  let i = 0;
+  while (i < n - 1 && sorted[i + 1].x < x) {
+    i++;
+  }
+
+  const { x: x0, y: y0 } = sorted[i];
+  const { x: x1, y: y1 } = sorted[i + 1];
+  const h = x1 - x0;
+  const a = (x1 - x) / h;
+  const b = (x - x0) / h;
+
+  const result =
+    a * y0 +
+    b * y1 +
+    ((a * a * a - a) * m[i] + (b * b * b - b) * m[i + 1]) * ((h * h) / 6);
+
+  return clamp(round ? Math.round(result) : result, 0, 255);
+}
+
+/**
+ * Uniform cubic B-spline interpolation. The control points pull the curve
+ * without it passing through them (except the end points, which are
+ * repeated), giving the softest result.
+ * Pass round = false to keep sub-integer precision
+ */
+export function bSplineInterpolation(
+  points: CurvePoint[],
+  x: number,
+  round: boolean = true
+): number {
+  const sorted = sortPoints(points);
+  const n = sorted.length;
+
+  if (n === 0) return x;
+  if (n === 1) return sorted[0].y;
+
+  // Handle edge cases
+  if (x <= sorted[0].x) return sorted[0].y;
+  if (x >= sorted[n - 1].x) return sorted[n - 1].y;
+
+  // Tripled end points make the spline start and end on them
+  const first = sorted[0];
+  const last = sorted[n - 1];
+  const control = [first, first, ...sorted, last, last];
+  const segments = control.length - 3;
+
+  const evaluate = (s: number): CurvePoint => {
+    const i = Math.min(Math.floor(s), segments - 1);
+    const t = s - i;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    const w0 = (1 - 3 * t + 3 * t2 - t3) / 6;
+    const w1 = (3 * t3 - 6 * t2 + 4) / 6;
+    const w2 = (-3 * t3 + 3 * t2 + 3 * t + 1) / 6;
+    const w3 = t3 / 6;
+    const [p0, p1, p2, p3] = control.slice(i, i + 4);
+    return {
+      x: w0 * p0.x + w1 * p1.x + w2 * p2.x + w3 * p3.x,
+      y: w0 * p0.y + w1 * p1.y + w2 * p2.y + w3 * p3.y,
+    };
+  };
+
+  // x grows with the spline parameter because the control points are
+  // sorted, so bisect for the parameter that lands on x
+  let lo = 0;
+  let hi = segments;
+  for (let iteration = 0; iteration < 32; iteration++) {
+    const mid = (lo + hi) / 2;
+    if (evaluate(mid).x < x) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+
+  const result = evaluate((lo + hi) / 2).y;
+
+  return clamp(round ? Math.round(result) : result, 0, 255);
+}
+
+/**
+ * Bezier handles of the point at index in sorted points, as offsets from
+ * the point. Explicit handles win; otherwise smooth and corner points get
+ * automatic handles along the slope between their neighbours, reaching a
+ * third of the way to each, and linear points get none.
+ */
+export function getBezierHandles(
+  sorted: CurvePoint[],
+  index: number
+): { handleIn: BezierHandle; handleOut: BezierHandle } {
+  const point = sorted[index];
+  if (point.type === 'linear') {
+    return { handleIn: { x: 0, y: 0 }, handleOut: { x: 0, y: 0 } };
+  }
+
+  const prev = sorted[index - 1] ?? point;
+  const next = sorted[index + 1] ?? point;
+  const dx = next.x - prev.x;
+  const slope = dx === 0 ? 0 : (next.y - prev.y) / dx;
+  const inLength = (point.x - prev.x) / 3;
+  const outLength = (next.x - point.x) / 3;
+
   return {
-    master: generateChannelLUT(channelPoints.master, interpolation),
-    red: generateChannelLUT(channelPoints.red, interpolation),
-    green: generateChannelLUT(channelPoints.green, interpolation),
-    blue: generateChannelLUT(channelPoints.blue, interpolation),
+    handleIn: point.handleIn ?? { x: -inLength, y: -inLength * slope },
+    handleOut: point.handleOut ?? { x: outLength, y: outLength * slope },
   };
 }
 
+/**
+ * Shorten a handle so it reaches at most maxX forward in x
+ */
+function limitHandle(handle: BezierHandle, maxX: number): BezierHandle {
+  if (handle.x <= 0) return { x: 0, y: handle.y };
+  if (handle.x <= maxX) return handle;
+  const k = maxX / handle.x;
+  return { x: maxX, y: handle.y * k };
+}
+
+/**
+ * Change a point's bezier type. Corner points keep the current handles so
+ * they can be dragged apart; smooth and linear points drop explicit
+ * handles (smooth ones go back to automatic handles).
+ */
+export function setPointType(
+  sorted: CurvePoint[],
+  index: number,
+  type: PointType
+): CurvePoint {
+  const point = sorted[index];
+  if (type === 'corner') {
+    return { ...point, type, ...getBezierHandles(sorted, index) };
+  }
+  return { ...point, type, handleIn: undefined, handleOut: undefined };
+}
+
+/**
+ * Cubic bezier interpolation. Each segment runs from a point along its
+ * outgoing handle and into the next point along that point's incoming
+ * handle. Handles are limited so x only ever increases along a segment,
+ * keeping the curve a function of x.
+ * Pass round = false to keep sub-integer precision
+ */
+export function bezierInterpolation(
+  points: CurvePoint[],
+  x: number,
+  round: boolean = true
+): number {
+  const sorted = sortPoints(points);
+  const n = sorted.length;
+
+  if (n === 0) return x;
+  if (n === 1) return sorted[0].y;
+
+  // Handle edge cases
+  if (x <= sorted[0].x) return sorted[0].y;
+  if (x >= sorted[n - 1].x) return sorted[n - 1].y;
+
+  // Find the segment containing x
+  let i = 0;
+  while (i < n - 1 && sorted[i + 1].x < x) {
+    i++;
+  }
+
+  const p0 = sorted[i];
+  const p1 = sorted[i + 1];
+  const span = p1.x - p0.x;
+  if (span === 0) return p0.y;
+
+  // Keep both handles inside the segment, and scale them down together
+  // if they would cross
+  let out = limitHandle(getBezierHandles(sorted, i).handleOut, span);
+  const incoming = getBezierHandles(sorted, i + 1).handleIn;
+  let back = limitHandle({ x: -incoming.x, y: -incoming.y }, span);
+  if (out.x + back.x > span) {
+    const k = span / (out.x + back.x);
+    out = { x: out.x * k, y: out.y * k };
+    back = { x: back.x * k, y: back.y * k };
+  }
+
+  const c0 = { x: p0.x + out.x, y: p0.y + out.y };
+  const c1 = { x: p1.x - back.x, y: p1.y - back.y };
+  const cubic = (t: number, a: number, b: number, c: number, d: number) => {
+    const mt = 1 - t;
+    return mt * mt * mt * a + 3 * mt * mt * t * b + 3 * mt * t * t * c + t * t * t * d;
+  };
+
+  // x(t) never decreases, so bisect for the t that lands on x
+  let lo = 0;
+  let hi = 1;
+  for (let iteration = 0; iteration < 32; iteration++) {
+    const mid = (lo + hi) / 2;
+    if (cubic(mid, p0.x, c0.x, c1.x, p1.x) < x) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+
+  const result = cubic((lo + hi) / 2, p0.y, c0.y, c1.y, p1.y);
+
+  return clamp(round ? Math.round(result) : result, 0, 255);
+}
+
+/**
+ * The interpolators that ship with the library, by name
+ */
+const BUILT_IN_INTERPOLATORS: Record<
+  BuiltInInterpolation,
+  InterpolationFunction
+> = {
+  monotone: monotoneCubicInterpolation,
+  catmullRom: catmullRomInterpolation,
+  linear: linearInterpolation,
+  naturalCubic: naturalCubicInterpolation,
+  bSpline: bSplineInterpolation,
+  bezier: bezierInterpolation,
+};
+
+/**
+ * Interpolators added with registerInterpolator
+ */
+const registeredInterpolators = new Map<string, InterpolationFunction>();
+
+function isBuiltInInterpolation(name: string): name is BuiltInInterpolation {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_INTERPOLATORS, name);
+}
+
+/**
+ * Register an interpolator so it can be selected by name, e.g.
+ * `interpolation="smoothstep"`. Registering a name again replaces it;
+ * built-in names cannot be replaced.
+ */
+export function registerInterpolator(
+  name: string,
+  interpolate: InterpolationFunction
+): void {
+  if (isBuiltInInterpolation(name)) {
+    throw new Error(`Cannot replace the built-in "${name}" interpolation`);
+  }
+  registeredInterpolators.set(name, interpolate);
+}
+
+/**
+ * Names of all built-in and registered interpolators
+ */
+export function getInterpolationNames(): string[] {
+  return [
+    ...Object.keys(BUILT_IN_INTERPOLATORS),
+    ...registeredInterpolators.keys(),
+  ];
+}
+
+/**
+ * Resolve an interpolation name (or function) to the function that drawing,
+ * hit testing and LUT generation all evaluate the curve with
+ */
+export function getInterpolator(
+  interpolation: Interpolation
+): InterpolationFunction {
+  if (typeof interpolation === 'function') return interpolation;
+
+  const interpolate = isBuiltInInterpolation(interpolation)
+    ? BUILT_IN_INTERPOLATORS[interpolation]
+    : registeredInterpolators.get(interpolation);
+  if (!interpolate) {
+    throw new Error(`Unknown interpolation: "${interpolation}"`);
+  }
+  return interpolate;
+}
+
+/**
+ * Extend points periodically for curves whose x-axis wraps (hue). The end
+ * point at 255 is the same hue as the one at 0, so it is dropped and the
+ * neighbouring points are repeated one period to each side; interpolating
+ * the result over 0-255 joins 360 degrees smoothly back to 0.
+ */
+export function getPeriodicPoints(points: CurvePoint[]): CurvePoint[] {
+  const sorted = sortPoints(points);
+  if (sorted.length < 2) return sorted;
+
+  const period =
+    sorted[0].x <= 0 && sorted[sorted.length - 1].x >= 255
+      ? sorted.slice(0, -1)
+      : sorted;
+  const before = period.slice(-2).map((p) => ({ ...p, x: p.x - 255 }));
+  const after = period.slice(0, 2).map((p) => ({ ...p, x: p.x + 255 }));
+
+  return [...before, ...period, ...after];
+}
+
+/**
+ * Convert points from 0-255 to normalized 0-1 coordinates
+ */
+export function normalizePoints(points: CurvePoint[]): CurvePoint[] {
+  return points.map((p) => scalePoint(p, 1 / 255));
+}
+
+/**
+ * Convert points from normalized 0-1 to 0-255 coordinates
+ */
+export function denormalizePoints(points: CurvePoint[]): CurvePoint[] {
+  return points.map((p) => scalePoint(p, 255));
+}
+
+/**
+ * Scale a point and its bezier handles
+ */
+function scalePoint(point: CurvePoint, factor: number): CurvePoint {
+  const { handleIn, handleOut } = point;
+  const scaled: CurvePoint = {
+    ...point,
+    x: point.x * factor,
+    y: point.y * factor,
+  };
+  if (handleIn) {
+    scaled.handleIn = { x: handleIn.x * factor, y: handleIn.y * factor };
+  }
+  if (handleOut) {
+    scaled.handleOut = { x: handleOut.x * factor, y: handleOut.y * factor };
+  }
+  return scaled;
+}
+
+/**
+ * Convert points for all channels from 0-255 to normalized 0-1
+ */
+export function normalizeChannelPoints(points: ChannelPoints): ChannelPoints {
+  const result: Partial<ChannelPoints> = {};
+  for (const [channel, list] of Object.entries(points)) {
+    if (list) result[channel] = normalizePoints(list);
+  }
+  return result as ChannelPoints;
+}
+
+/**
+ * Convert points for all channels from normalized 0-1 to 0-255
+ */
+export function denormalizeChannelPoints(points: ChannelPoints): ChannelPoints {
+  const result: Partial<ChannelPoints> = {};
+  for (const [channel, list] of Object.entries(points)) {
+    if (list) result[channel] = denormalizePoints(list);
+  }
+  return result as ChannelPoints;
+}
+
+/**
+ * Maximum output value for each LUT output type
+ */
+const LUT_OUTPUT_MAX: Record<LUTOutputType, number> = {
+  uint8: 255,
+  uint16: 65535,
+  float32: 1,
+};
+
+/**
+ * Generate LUT for a single channel
+ * By default 256 8-bit entries; use options for other sizes and bit depths
+ */
+export function generateChannelLUT<T extends LUTOutputType = 'uint8'>(
+  points: CurvePoint[],
+  interpolation: Interpolation = 'monotone',
+  options: LUTOptions<T> = {}
+): LUTArrayFor<T> {
+  const { size = 256, normalized = false, periodic = false } = options;
+  const outputType: LUTOutputType = options.outputType ?? 'uint8';
+
+  const lut =
+    outputType === 'uint16'
+      ? new Uint16Array(size)
+      : outputType === 'float32'
+      ? new Float32Array(size)
+      : new Uint8Array(size);
+  const interpolate = getInterpolator(interpolation);
+  const bytePoints = normalized ? denormalizePoints(points) : points;
+  const curvePoints = periodic ? getPeriodicPoints(bytePoints) : bytePoints;
+
+  // 8-bit output keeps the integer-rounded spline; deeper outputs use full precision
+  const round = outputType === 'uint8';
+  const scale = LUT_OUTPUT_MAX[outputType] / 255;
+  const step = size > 1 ? 255 / (size - 1) : 0;
+
+  for (let i = 0; i < size; i++) {
+    const value = interpolate(curvePoints, i * step, round) * scale;
+    lut[i] = outputType === 'float32' ? value : Math.round(value);
+  }
+
+  return lut as LUTArrayFor<T>;
+}
+
+/**
+ * Generate LUT for all channels (one table per channel in the points).
+ * Hue channels, found through the given definitions or the built-in ones,
+ * are generated as periodic curves. Default channels missing from the
+ * points are missing from the LUT too (see PartialLUTData).
+ */
+export function generateLUT<T extends LUTOutputType = 'uint8'>(
+  channelPoints: ChannelPoints,
+  interpolation: Interpolation = 'monotone',
+  options: LUTOptions<T> = {},
+  channels: readonly ChannelDefinition[] = DEFAULT_CHANNELS
+): LUTData<LUTArrayFor<T>> {
+  const lut: PartialLUTData<LUTArrayFor<T>> = {};
+  for (const [channel, points] of Object.entries(channelPoints)) {
+    if (!points) continue;
+    const { apply } = getChannelDefinition(channel, channels);
+    lut[channel] = generateChannelLUT(points, interpolation, {
+      ...options,
+      periodic: options.periodic ?? getCurveAxis(apply) === 'hue',
+    });
+  }
+  return lut as LUTData<LUTArrayFor<T>>;
+}
+
+/**
+ * Order in which channel curves are applied: per-component curves first,
+ * then curves shared by R/G/B (like master), then luminance, then the HSL
+ * secondaries on the graded result
+ */
+const APPLICATION_ORDER: ChannelApplication[] = [
+  'red',
+  'green',
+  'blue',
+  'alpha',
+  'rgb',
+  'luminance',
+  'hueVsSaturation',
+  'hueVsHue',
+  'lumaVsSaturation',
+];
+
+/**
+ * Sort channel definitions into application order, dropping 'none'
+ */
+export function getAppliedChannels(
+  channels: readonly ChannelDefinition[]
+): ChannelDefinition[] {
+  return APPLICATION_ORDER.flatMap((application) =>
+    channels.filter((channel) => channel.apply === application)
+  );
+}
+
+/**
+ * Apply a luminance curve by moving R, G and B by the same amount. Rec. 709
+ * weights sum to 1, so this sets the new luma and leaves Cb/Cr unchanged.
+ */
+export function applyLuminanceTable(
+  r: number,
+  g: number,
+  b: number,
+  table: ArrayLike<number>
+): [number, number, number] {
+  const luma = Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b);
+  const delta = table[luma] - luma;
+  return [
+    clamp(r + delta, 0, 255),
+    clamp(g + delta, 0, 255),
+    clamp(b + delta, 0, 255),
+  ];
+}
+
+/**
+ * Apply LUT to an RGBA pixel following each channel's application
+ */
+export function applyLUTToPixel(
+  r: number,
+  g: number,
+  b: number,
+  a: number,
+  lut: PartialLUTData,
+  channels: readonly ChannelDefinition[] = DEFAULT_CHANNELS
+): [number, number, number, number] {
+  let pixel: [number, number, number, number] = [
+    clamp(r, 0, 255),
+    clamp(g, 0, 255),
+    clamp(b, 0, 255),
+    clamp(a, 0, 255),
+  ];
+
+  for (const channel of getAppliedChannels(channels)) {
+    const table = lut[channel.id];
+    if (!table) continue;
+
+    const [pr, pg, pb, pa] = pixel;
+    switch (channel.apply) {
+      case 'red':
+        pixel = [table[pr], pg, pb, pa];
+        break;
+      case 'green':
+        pixel = [pr, table[pg], pb, pa];
+        break;
+      case 'blue':
+        pixel = [pr, pg, table[pb], pa];
+        break;
+      case 'alpha':
+        pixel = [pr, pg, pb, table[pa]];
+        break;
+      case 'rgb':
+        pixel = [table[pr], table[pg], table[pb], pa];
+        break;
+      case 'luminance':
+        pixel = [...applyLuminanceTable(pr, pg, pb, table), pa];
+        break;
+      case 'hueVsSaturation':
+      case 'hueVsHue':
+      case 'lumaVsSaturation':
+        pixel = [...applySecondaryTable(pr, pg, pb, channel.apply, table), pa];
+        break;
+    }
+  }
+
+  return pixel;
+}
+
 /**
  * Apply LUT to RGB values
  */
@@ -217,18 +808,25 @@ export function applyLUT(
   r: number,
   g: number,
   b: number,
-  lut: LUTData
+  lut: PartialLUTData,
+  channels: readonly ChannelDefinition[] = DEFAULT_CHANNELS
 ): [number, number, number] {
-  // Apply individual channel LUTs first
-  let newR = lut.red[clamp(r, 0, 255)];
-  let newG = lut.green[clamp(g, 0, 255)];
-  let newB = lut.blue[clamp(b, 0, 255)];
-
-  // Then apply master LUT to all
-  newR = lut.master[newR];
-  newG = lut.master[newG];
-  newB = lut.master[newB];
+  const { master, red, green, blue } = lut;
+  if (channels === DEFAULT_CHANNELS && master && red && green && blue) {
+    // Apply individual channel LUTs first
+    let newR = red[clamp(r, 0, 255)];
+    let newG = green[clamp(g, 0, 255)];
+    let newB = blue[clamp(b, 0, 255)];
+
+    // Then apply master LUT to all
+    newR = master[newR];
+    newG = master[newG];
+    newB = master[newB];
+
+    return [newR, newG, newB];
+  }
 
+  const [newR, newG, newB] = applyLUTToPixel(r, g, b, 255, lut, channels);
   return [newR, newG, newB];
 }
 
@@ -243,6 +841,42 @@ export function findInsertIndex(points: CurvePoint[], x: number): number {
   return sorted.length;
 }
 
+/**
+ * Choose where to add a point on the curve: midway after the point at
+ * afterIndex, or in the widest gap when no point is given. Returns null
+ * when the gap is too narrow to respect MIN_POINT_DISTANCE.
+ */
+export function getInsertionPoint(
+  points: CurvePoint[],
+  afterIndex: number | null,
+  interpolation: Interpolation = 'monotone',
+  periodic: boolean = false
+): { index: number; point: CurvePoint } | null {
+  const sorted = sortPoints(points);
+  if (sorted.length < 2) return null;
+
+  let gap = 0;
+  if (afterIndex !== null) {
+    gap = clamp(afterIndex, 0, sorted.length - 2);
+  } else {
+    for (let i = 1; i < sorted.length - 1; i++) {
+      if (sorted[i + 1].x - sorted[i].x > sorted[gap + 1].x - sorted[gap].x) {
+        gap = i;
+      }
+    }
+  }
+
+  const left = sorted[gap];
+  const right = sorted[gap + 1];
+  if (right.x - left.x < MIN_POINT_DISTANCE * 2) return null;
+
+  const interpolate = getInterpolator(interpolation);
+  const x = Math.round((left.x + right.x) / 2);
+  const curve = periodic ? getPeriodicPoints(sorted) : sorted;
+
+  return { index: gap + 1, point: { x, y: interpolate(curve, x) } };
+}
+
 /**
  * Check if a point is near another point (for hit testing)
  */
@@ -259,14 +893,111 @@ export function isPointNear(
 /**
  * Get all channels as an array
  */
-export const CHANNELS: Channel[] = ['master', 'red', 'green', 'blue'];
+export const CHANNELS: DefaultChannel[] = ['master', 'red', 'green', 'blue'];
 
 /**
  * Channel display info
  */
-export const CHANNEL_INFO: Record<Channel, { label: string; shortLabel: string }> = {
+export const CHANNEL_INFO: Record<DefaultChannel, { label: string; shortLabel: string }> = {
   master: { label: 'Master', shortLabel: 'RGB' },
   red: { label: 'Red', shortLabel: 'R' },
   green: { label: 'Green', shortLabel: 'G' },
   blue: { label: 'Blue', shortLabel: 'B' },
 };
+
+/**
+ * The default channel set: Master applied to RGB, then Red, Green and Blue
+ */
+export const DEFAULT_CHANNELS: ChannelDefinition[] = [
+  { id: 'master', label: 'Master', color: CHANNEL_COLORS.master, apply: 'rgb' },
+  { id: 'red', label: 'Red', color: CHANNEL_COLORS.red, apply: 'red' },
+  { id: 'green', label: 'Green', color: CHANNEL_COLORS.green, apply: 'green' },
+  { id: 'blue', label: 'Blue', color: CHANNEL_COLORS.blue, apply: 'blue' },
+];
+
+/**
+ * A luma-only curve that keeps colors unchanged
+ */
+export const LUMINANCE_CHANNEL: ChannelDefinition = {
+  id: 'luminance',
+  label: 'Luminance',
+  color: '#bfbfbf',
+  apply: 'luminance',
+};
+
+/**
+ * A curve for the alpha component
+ */
+export const ALPHA_CHANNEL: ChannelDefinition = {
+  id: 'alpha',
+  label: 'Alpha',
+  color: '#a0a0a0',
+  apply: 'alpha',
+};
+
+/**
+ * Hue vs Saturation: scales saturation per hue (flat line = unchanged)
+ */
+export const HUE_VS_SATURATION_CHANNEL: ChannelDefinition = {
+  id: 'hueVsSaturation',
+  label: 'Hue vs Sat',
+  color: '#d9a0ff',
+  apply: 'hueVsSaturation',
+};
+
+/**
+ * Hue vs Hue: shifts each hue by up to ±180 degrees
+ */
+export const HUE_VS_HUE_CHANNEL: ChannelDefinition = {
+  id: 'hueVsHue',
+  label: 'Hue vs Hue',
+  color: '#ffc857',
+  apply: 'hueVsHue',
+};
+
+/**
+ * Luma vs Saturation: scales saturation by brightness
+ */
+export const LUMA_VS_SATURATION_CHANNEL: ChannelDefinition = {
+  id: 'lumaVsSaturation',
+  label: 'Luma vs Sat',
+  color: '#7fd1ff',
+  apply: 'lumaVsSaturation',
+};
+
+/**
+ * The HSL secondary curves, in the order Lumetri lists them
+ */
+export const HSL_CHANNELS: ChannelDefinition[] = [
+  HUE_VS_SATURATION_CHANNEL,
+  HUE_VS_HUE_CHANNEL,
+  LUMA_VS_SATURATION_CHANNEL,
+];
+
+/**
+ * Built-in definitions that getChannelDefinition recognizes by id
+ */
+const BUILT_IN_CHANNELS: ChannelDefinition[] = [
+  ...DEFAULT_CHANNELS,
+  LUMINANCE_CHANNEL,
+  ALPHA_CHANNEL,
+  ...HSL_CHANNELS,
+];
+
+/**
+ * Look up a channel's definition, falling back to a built-in one and then
+ * to one labelled with its id
+ */
+export function getChannelDefinition(
+  channel: Channel,
+  channels: readonly ChannelDefinition[] = DEFAULT_CHANNELS
+): ChannelDefinition {
+  return (
+    channels.find((definition) => definition.id === channel) ??
+    BUILT_IN_CHANNELS.find((definition) => definition.id === channel) ?? {
+      id: channel,
+      label: channel,
+      color: CHANNEL_COLORS.master,
+    }
+  );
+}
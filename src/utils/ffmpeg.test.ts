@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getFFmpegCurvesPreset,
+  parseFFmpegCurves,
+  toFFmpegCurves,
+} from './ffmpeg';
+
+const diagonal = [
+  { x: 0, y: 0 },
+  { x: 255, y: 255 },
+];
+
+describe('toFFmpegCurves', () => {
+  it('writes non-identity channels as normalized coordinates', () => {
+    const filter = toFFmpegCurves({
+      master: [
+        { x: 0, y: 0 },
+        { x: 127.5, y: 153 },
+        { x: 255, y: 255 },
+      ],
+      red: diagonal,
+    });
+    expect(filter).toBe("curves=master='0/0 0.5/0.6 1/1'");
+  });
+
+  it('still produces a valid filter when every curve is the identity', () => {
+    expect(toFFmpegCurves({}, { includeFilterName: false })).toBe(
+      'preset=none'
+    );
+  });
+});
+
+describe('parseFFmpegCurves', () => {
+  it('round-trips points within the written precision', () => {
+    const points = {
+      master: diagonal,
+      red: [
+        { x: 0, y: 12 },
+        { x: 100, y: 130 },
+        { x: 255, y: 250 },
+      ],
+      green: diagonal,
+      blue: [
+        { x: 0, y: 0 },
+        { x: 64, y: 40 },
+        { x: 255, y: 255 },
+      ],
+    };
+    const parsed = parseFFmpegCurves(toFFmpegCurves(points, { precision: 6 }));
+
+    for (const channel of ['master', 'red', 'green', 'blue'] as const) {
+      expect(parsed[channel]).toHaveLength(points[channel].length);
+      parsed[channel].forEach((p, i) => {
+        expect(p.x).toBeCloseTo(points[channel][i].x, 3);
+        expect(p.y).toBeCloseTo(points[channel][i].y, 3);
+      });
+    }
+  });
+
+  it('keeps fractional coordinates', () => {
+    const { master } = parseFFmpegCurves("master='0/0 0.3/0.31 1/1'");
+    expect(master[1].x).toBeCloseTo(76.5, 6);
+    expect(master[1].y).toBeCloseTo(79.05, 6);
+  });
+
+  it('applies presets, then explicit channels, then all', () => {
+    const parsed = parseFFmpegCurves(
+      "curves=preset=vintage:r='0/0 1/1':all='0/0.1 1/0.9'"
+    );
+    const vintage = getFFmpegCurvesPreset('vintage');
+
+    expect(parsed.red).toEqual(diagonal);
+    expect(parsed.green[0].y).toBeCloseTo(25.5, 6);
+    expect(parsed.blue).toEqual(parsed.green);
+    expect(parsed.master).toEqual(vintage.master);
+  });
+
+  it('rejects unknown options and bad points', () => {
+    expect(() => parseFFmpegCurves('curves=foo=1')).toThrow(
+      'Unknown ffmpeg curves option: "foo"'
+    );
+    expect(() => parseFFmpegCurves("red='0/0 x/1'")).toThrow(
+      'Invalid ffmpeg curves point: "x/1"'
+    );
+    expect(() => parseFFmpegCurves("red='0/0'")).toThrow(
+      'needs at least 2 points'
+    );
+  });
+});
@@ -0,0 +1,233 @@
+import {
+  Channel,
+  ChannelPoints,
+  CurvePoint,
+  FFmpegCurvesOptions,
+  FFmpegCurvesPreset,
+} from '../types';
+import { clamp, getDefaultPoints, sortPoints, CHANNELS } from './curve';
+
+/**
+ * Built-in ffmpeg `curves` presets (from libavfilter/vf_curves.c)
+ */
+const FFMPEG_PRESETS: Record<
+  FFmpegCurvesPreset,
+  Partial<Record<Channel, string>>
+> = {
+  none: {},
+  color_negative: {
+    red: '0.129/1 0.466/0.498 0.725/0',
+    green: '0.109/1 0.301/0.498 0.517/0',
+    blue: '0.098/1 0.235/0.498 0.423/0',
+  },
+  cross_process: {
+    red: '0/0 0.25/0.156 0.501/0.501 0.686/0.745 1/1',
+    green: '0/0 0.25/0.188 0.38/0.501 0.745/0.815 1/0.815',
+    blue: '0/0 0.231/0.094 0.709/0.874 1/1',
+  },
+  darker: { master: '0/0 0.5/0.4 1/1' },
+  increase_contrast: {
+    master: '0/0 0.149/0.066 0.831/0.905 0.905/0.98 1/1',
+  },
+  lighter: { master: '0/0 0.4/0.5 1/1' },
+  linear_contrast: { master: '0/0 0.305/0.286 0.694/0.713 1/1' },
+  medium_contrast: { master: '0/0 0.286/0.219 0.639/0.643 1/1' },
+  negative: { master: '0/1 1/0' },
+  strong_contrast: {
+    master: '0/0 0.301/0.196 0.592/0.6 0.686/0.737 1/1',
+  },
+  vintage: {
+    red: '0/0.11 0.42/0.51 1/0.95',
+    green: '0/0 0.50/0.48 1/1',
+    blue: '0/0.22 0.49/0.44 1/0.8',
+  },
+};
+
+/**
+ * ffmpeg option names (long and short) for each channel
+ */
+const FFMPEG_KEYS: Record<string, Channel | 'all'> = {
+  master: 'master',
+  m: 'master',
+  red: 'red',
+  r: 'red',
+  green: 'green',
+  g: 'green',
+  blue: 'blue',
+  b: 'blue',
+  all: 'all',
+};
+
+/**
+ * Parse an ffmpeg point list ("0/0 0.5/0.6 1/1") into 0-255 curve points.
+ * Coordinates keep their precision, so they may be fractional.
+ */
+function parsePointList(value: string): CurvePoint[] {
+  const points: CurvePoint[] = [];
+
+  for (const pair of value.trim().split(/\s+/)) {
+    if (pair === '') continue;
+    const [x, y] = pair.split('/').map(Number);
+    if (!Number.isFinite(x) || !Number.isFinite(y)) {
+      throw new Error(`Invalid ffmpeg curves point: "${pair}"`);
+    }
+    points.push({
+      x: clamp(x * 255, 0, 255),
+      y: clamp(y * 255, 0, 255),
+    });
+  }
+
+  return sortPoints(points);
+}
+
+/**
+ * Format a 0-255 value as a normalized ffmpeg coordinate
+ */
+function formatCoordinate(value: number, precision: number): string {
+  return String(Number((clamp(value, 0, 255) / 255).toFixed(precision)));
+}
+
+function isIdentity(points: CurvePoint[]): boolean {
+  const sorted = sortPoints(points);
+  return (
+    sorted.length === 2 &&
+    sorted[0].x === 0 &&
+    sorted[0].y === 0 &&
+    sorted[1].x === 255 &&
+    sorted[1].y === 255
+  );
+}
+
+/**
+ * Split filter options on ':' while respecting quotes and backslash escapes
+ */
+function splitOptions(args: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const ch = args[i];
+    if (ch === '\\' && i + 1 < args.length) {
+      current += args[++i];
+    } else if (ch === "'") {
+      quoted = !quoted;
+    } else if (ch === ':' && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+
+  return parts.filter((part) => part.trim() !== '');
+}
+
+/**
+ * Get the control points of a named ffmpeg `curves` preset
+ */
+export function getFFmpegCurvesPreset(preset: FFmpegCurvesPreset): ChannelPoints {
+  const definition = Object.prototype.hasOwnProperty.call(FFMPEG_PRESETS, preset)
+    ? FFMPEG_PRESETS[preset]
+    : null;
+  if (!definition) {
+    throw new Error(`Unknown ffmpeg curves preset: "${preset}"`);
+  }
+
+  const result = {} as ChannelPoints;
+  for (const channel of CHANNELS) {
+    const value = definition[channel];
+    result[channel] = value ? parsePointList(value) : getDefaultPoints();
+  }
+  return result;
+}
+
+/**
+ * Serialize channel points to an ffmpeg `curves` filter, e.g.
+ * `curves=master='0/0 0.5/0.6 1/1':red='0/0.1 1/1'`
+ */
+export function toFFmpegCurves(
+  points: Partial<ChannelPoints>,
+  options: FFmpegCurvesOptions = {}
+): string {
+  const {
+    includeFilterName = true,
+    includeIdentity = false,
+    precision = 4,
+  } = options;
+
+  const args: string[] = [];
+  for (const channel of CHANNELS) {
+    const channelPoints = points[channel] || getDefaultPoints();
+    if (!includeIdentity && isIdentity(channelPoints)) continue;
+
+    const list = sortPoints(channelPoints)
+      .map(
+        (p) =>
+          `${formatCoordinate(p.x, precision)}/${formatCoordinate(p.y, precision)}`
+      )
+      .join(' ');
+    args.push(`${channel}='${list}'`);
+  }
+
+  // An all-identity curve still needs an argument for ffmpeg to accept it
+  const filterArgs = args.length > 0 ? args.join(':') : 'preset=none';
+  return includeFilterName ? `curves=${filterArgs}` : filterArgs;
+}
+
+/**
+ * Parse an ffmpeg `curves` filter (with or without the `curves=` prefix)
+ * into channel points. Presets are expanded and explicit channel options
+ * override them, matching ffmpeg; `all` fills any unset R/G/B channel.
+ * Points are not rounded to whole 0-255 values.
+ */
+export function parseFFmpegCurves(filter: string): ChannelPoints {
+  const args = filter.trim().replace(/^curves=/, '');
+
+  let preset: FFmpegCurvesPreset = 'none';
+  let all: CurvePoint[] | null = null;
+  const explicit: Partial<ChannelPoints> = {};
+
+  for (const option of splitOptions(args)) {
+    const eq = option.indexOf('=');
+    if (eq === -1) {
+      throw new Error(`Invalid ffmpeg curves option: "${option}"`);
+    }
+    const key = option.slice(0, eq).trim();
+    const value = option.slice(eq + 1).trim();
+
+    if (key === 'preset') {
+      preset = value as FFmpegCurvesPreset;
+    } else if (key === 'interp') {
+      // Interpolation is chosen separately via the interpolation prop
+      continue;
+    } else if (key === 'psfile' || key === 'plot') {
+      throw new Error(`Unsupported ffmpeg curves option: "${key}"`);
+    } else if (Object.prototype.hasOwnProperty.call(FFMPEG_KEYS, key)) {
+      const points = parsePointList(value);
+      if (points.length < 2) {
+        throw new Error(`ffmpeg curves "${key}" needs at least 2 points`);
+      }
+      const target = FFMPEG_KEYS[key];
+      if (target === 'all') {
+        all = points;
+      } else {
+        explicit[target] = points;
+      }
+    } else {
+      throw new Error(`Unknown ffmpeg curves option: "${key}"`);
+    }
+  }
+
+  const result = getFFmpegCurvesPreset(preset);
+  for (const channel of CHANNELS) {
+    const points = explicit[channel];
+    if (points) {
+      result[channel] = points;
+    } else if (all && channel !== 'master') {
+      result[channel] = all;
+    }
+  }
+  return result;
+}
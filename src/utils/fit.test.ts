@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { fitChannelPoints, fitCurve, fitCurvePoints } from './fit';
+import { generateChannelLUT, generateLUT } from './curve';
+import { exportCubeLUT, importCubeLUT } from './cube';
+
+const sCurve = [
+  { x: 0, y: 0 },
+  { x: 64, y: 48 },
+  { x: 192, y: 210 },
+  { x: 255, y: 255 },
+];
+
+const sCurves = { master: sCurve, red: sCurve, green: sCurve, blue: sCurve };
+
+function maxDifference(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let max = 0;
+  for (let i = 0; i < a.length; i++) {
+    max = Math.max(max, Math.abs(a[i] - b[i]));
+  }
+  return max;
+}
+
+describe('fitCurvePoints', () => {
+  it('fits a table generated from points within tolerance', () => {
+    const table = generateChannelLUT(sCurve);
+    const points = fitCurvePoints(table, { tolerance: 1 });
+
+    expect(points[0].x).toBe(0);
+    expect(points[points.length - 1].x).toBe(255);
+    expect(
+      maxDifference(generateChannelLUT(points), table)
+    ).toBeLessThanOrEqual(1);
+  });
+
+  it('fits the identity with just its end points', () => {
+    const identity = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(fitCurvePoints(identity)).toEqual([
+      { x: 0, y: 0 },
+      { x: 255, y: 255 },
+    ]);
+  });
+
+  it('throws when maxPoints stops the fit short of the tolerance', () => {
+    const table = generateChannelLUT(sCurve);
+    expect(() => fitCurvePoints(table, { maxPoints: 2 })).toThrow(
+      'Could not fit points within tolerance 1'
+    );
+
+    const { points, maxError } = fitCurve(table, { maxPoints: 2 });
+    expect(points).toHaveLength(2);
+    expect(maxError).toBeGreaterThan(1);
+  });
+});
+
+describe('fitChannelPoints', () => {
+  it('names the channel that cannot be fitted', () => {
+    const lut = generateLUT(sCurves);
+    expect(() => fitChannelPoints({ red: lut.red }, { maxPoints: 2 })).toThrow(
+      /^red: /
+    );
+  });
+
+  it('turns an imported .cube back into editable points', () => {
+    const lut = importCubeLUT(exportCubeLUT(sCurves));
+    const points = fitChannelPoints(lut, { tolerance: 2 });
+
+    expect(
+      maxDifference(generateChannelLUT(points.red), lut.red)
+    ).toBeLessThanOrEqual(2);
+    expect(points.master).toHaveLength(2);
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  CurvePoint,
+  ChannelPoints,
+  PartialLUTData,
+  CurveFitOptions,
+  CurveFitResult,
+  Interpolation,
+} from '../types';
+import { generateChannelLUT, sortPoints } from './curve';
+import { MIN_POINT_DISTANCE } from './constants';
+
+/**
+ * Largest absolute difference between a table and the curve through points
+ */
+function maxFitError(
+  table: ArrayLike<number>,
+  points: CurvePoint[],
+  interpolation: Interpolation
+): number {
+  const fitted = generateChannelLUT(points, interpolation);
+  let error = 0;
+
+  for (let i = 0; i < 256; i++) {
+    error = Math.max(error, Math.abs(fitted[i] - table[i]));
+  }
+
+  return error;
+}
+
+/**
+ * Check whether a new point at x keeps MIN_POINT_DISTANCE from all others
+ */
+function canInsertAt(points: CurvePoint[], x: number): boolean {
+  return points.every((p) => Math.abs(p.x - x) >= MIN_POINT_DISTANCE);
+}
+
+/**
+ * Fit a minimal set of control points to a 256-entry channel table.
+ * Points are added greedily at the worst-fitting input until the curve is
+ * within tolerance, then any point whose removal keeps it within tolerance
+ * is dropped. Points respect MIN_POINT_DISTANCE so they stay editable.
+ *
+ * Returns the points with the largest difference they leave, which is
+ * above tolerance when maxPoints or MIN_POINT_DISTANCE stopped the fit.
+ */
+export function fitCurve(
+  table: ArrayLike<number>,
+  options: CurveFitOptions = {}
+): CurveFitResult {
+  const {
+    tolerance = 1,
+    interpolation = 'monotone',
+    maxPoints = 16,
+  } = options;
+
+  let points: CurvePoint[] = [
+    { x: 0, y: table[0] },
+    { x: 255, y: table[255] },
+  ];
+
+  // Refine: insert at the largest error until within tolerance
+  while (points.length < maxPoints) {
+    const fitted = generateChannelLUT(points, interpolation);
+    let worst = -1;
+    let worstError = tolerance;
+
+    for (let i = 1; i < 255; i++) {
+      const diff = Math.abs(fitted[i] - table[i]);
+      if (diff > worstError && canInsertAt(points, i)) {
+        worstError = diff;
+        worst = i;
+      }
+    }
+
+    if (worst === -1) break;
+
+    points = sortPoints([...points, { x: worst, y: table[worst] }]);
+  }
+
+  // Simplify: drop interior points that are not needed
+  let maxError = maxFitError(table, points, interpolation);
+  for (let i = points.length - 2; i > 0; i--) {
+    const candidate = points.filter((_, j) => j !== i);
+    const reduced = maxFitError(table, candidate, interpolation);
+    if (reduced <= Math.max(tolerance, maxError)) {
+      points = candidate;
+      maxError = reduced;
+    }
+  }
+
+  return { points, maxError };
+}
+
+/**
+ * Fit control points to a 256-entry channel table (see fitCurve).
+ * Throws when no fit within tolerance was found, rather than returning a
+ * different curve.
+ */
+export function fitCurvePoints(
+  table: ArrayLike<number>,
+  options: CurveFitOptions = {}
+): CurvePoint[] {
+  const { tolerance = 1 } = options;
+  const { points, maxError } = fitCurve(table, options);
+  if (maxError > tolerance) {
+    throw new Error(
+      `Could not fit points within tolerance ${tolerance} (off by up to ${maxError}); smooth the curve or raise the tolerance or maxPoints`
+    );
+  }
+  return points;
+}
+
+/**
+ * Fit control points for every channel of a LUT. Throws, naming the
+ * channel, when one cannot be fitted within tolerance.
+ */
+export function fitChannelPoints(
+  lut: PartialLUTData,
+  options: CurveFitOptions = {}
+): ChannelPoints {
+  const result: Partial<ChannelPoints> = {};
+  for (const [channel, table] of Object.entries(lut)) {
+    if (!table) continue;
+    try {
+      result[channel] = fitCurvePoints(table, options);
+    } catch (error) {
+      throw new Error(`${channel}: ${(error as Error).message}`);
+    }
+  }
+  return result as ChannelPoints;
+}
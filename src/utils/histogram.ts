@@ -0,0 +1,51 @@
+import { Channel, HistogramData, HistogramInput } from '../types';
+
+/**
+ * Compute per-channel and luminance histograms (256 bins each).
+ * Luminance uses Rec. 709 weights. Fully transparent pixels are skipped.
+ */
+export function computeHistogram(imageData: ImageData): HistogramData {
+  const red = new Uint32Array(256);
+  const green = new Uint32Array(256);
+  const blue = new Uint32Array(256);
+  const luminance = new Uint32Array(256);
+  const data = imageData.data;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+
+    red[r]++;
+    green[g]++;
+    blue[b]++;
+    luminance[Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b)]++;
+  }
+
+  return { red, green, blue, luminance };
+}
+
+/**
+ * Check whether histogram input holds separate channel histograms
+ */
+export function isHistogramData(input: HistogramInput): input is HistogramData {
+  return !ArrayBuffer.isView(input);
+}
+
+/**
+ * Pick the histogram matching a channel: the channel's own counts for red,
+ * green and blue, luminance for master and any other channel. A single
+ * array is used for every channel.
+ */
+export function getChannelHistogram(
+  input: HistogramInput,
+  channel: Channel
+): Uint8Array | Uint32Array {
+  if (!isHistogramData(input)) return input;
+  if (channel === 'red') return input.red;
+  if (channel === 'green') return input.green;
+  if (channel === 'blue') return input.blue;
+  return input.luminance;
+}
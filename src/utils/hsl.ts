@@ -0,0 +1,150 @@
+import {
+  ChannelApplication,
+  CurveAxis,
+  CurvePoint,
+  SecondaryApplication,
+} from '../types';
+
+/**
+ * Output value of a flat secondary curve: no saturation or hue change
+ */
+export const SECONDARY_BASELINE = 128;
+
+/**
+ * Check whether a channel application is an HSL secondary curve
+ */
+export function isSecondaryApplication(
+  apply: ChannelApplication | undefined
+): apply is SecondaryApplication {
+  return (
+    apply === 'hueVsSaturation' ||
+    apply === 'hueVsHue' ||
+    apply === 'lumaVsSaturation'
+  );
+}
+
+/**
+ * What a channel's x-axis represents
+ */
+export function getCurveAxis(apply: ChannelApplication | undefined): CurveAxis {
+  if (apply === 'hueVsSaturation' || apply === 'hueVsHue') return 'hue';
+  if (apply === 'lumaVsSaturation') return 'luma';
+  return 'value';
+}
+
+/**
+ * Default points for a curve on the given axis: the diagonal for value
+ * curves, a flat line at SECONDARY_BASELINE for secondary curves
+ */
+export function getAxisDefaultPoints(axis: CurveAxis): CurvePoint[] {
+  const y0 = axis === 'value' ? 0 : SECONDARY_BASELINE;
+  const y1 = axis === 'value' ? 255 : SECONDARY_BASELINE;
+  return [
+    { x: 0, y: y0 },
+    { x: 255, y: y1 },
+  ];
+}
+
+/**
+ * Convert 0-255 RGB to HSL: hue in degrees (0-360), saturation and
+ * lightness 0-1
+ */
+export function rgbToHsl(
+  r: number,
+  g: number,
+  b: number
+): [number, number, number] {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  const d = max - min;
+
+  if (d === 0) return [0, 0, l];
+
+  const s = d / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === rn) {
+    h = ((gn - bn) / d) % 6;
+  } else if (max === gn) {
+    h = (bn - rn) / d + 2;
+  } else {
+    h = (rn - gn) / d + 4;
+  }
+  h *= 60;
+  if (h < 0) h += 360;
+
+  return [h, Math.min(1, s), l];
+}
+
+/**
+ * Convert HSL (hue in degrees, saturation and lightness 0-1) to 0-255 RGB
+ */
+export function hslToRgb(
+  h: number,
+  s: number,
+  l: number
+): [number, number, number] {
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const hp = (((h % 360) + 360) % 360) / 60;
+  const x = c * (1 - Math.abs((hp % 2) - 1));
+  const m = l - c / 2;
+
+  let rn = 0;
+  let gn = 0;
+  let bn = 0;
+  if (hp < 1) [rn, gn, bn] = [c, x, 0];
+  else if (hp < 2) [rn, gn, bn] = [x, c, 0];
+  else if (hp < 3) [rn, gn, bn] = [0, c, x];
+  else if (hp < 4) [rn, gn, bn] = [0, x, c];
+  else if (hp < 5) [rn, gn, bn] = [x, 0, c];
+  else [rn, gn, bn] = [c, 0, x];
+
+  const to8 = (v: number) =>
+    Math.min(255, Math.max(0, Math.round((v + m) * 255)));
+  return [to8(rn), to8(gn), to8(bn)];
+}
+
+/**
+ * Apply a secondary curve table to an RGB pixel. Hue curves map 0-255 to
+ * 0-360 degrees. Outputs are relative to SECONDARY_BASELINE: saturation is
+ * scaled by y / 128 (0 desaturates, 255 roughly doubles) and hue is shifted
+ * by up to ±180 degrees. Greys have no hue and are left to luma curves.
+ */
+export function applySecondaryTable(
+  r: number,
+  g: number,
+  b: number,
+  apply: SecondaryApplication,
+  table: ArrayLike<number>
+): [number, number, number] {
+  const [h, s, l] = rgbToHsl(r, g, b);
+  if (s === 0) return [r, g, b];
+
+  const hueIndex = Math.round((h / 360) * 255);
+
+  switch (apply) {
+    case 'hueVsSaturation':
+      return hslToRgb(
+        h,
+        Math.min(1, (s * table[hueIndex]) / SECONDARY_BASELINE),
+        l
+      );
+    case 'hueVsHue':
+      return hslToRgb(
+        h + ((table[hueIndex] - SECONDARY_BASELINE) / SECONDARY_BASELINE) * 180,
+        s,
+        l
+      );
+    case 'lumaVsSaturation': {
+      const luma = Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b);
+      return hslToRgb(
+        h,
+        Math.min(1, (s * table[luma]) / SECONDARY_BASELINE),
+        l
+      );
+    }
+  }
+}
@@ -0,0 +1,324 @@
+import {
+  ChannelDefinition,
+  LUTData,
+  PartialLUTData,
+  PixelBuffer,
+  PixelRegion,
+  ApplyLUTBufferOptions,
+  ApplyLUTImageDataOptions,
+} from '../types';
+import {
+  applyLuminanceTable,
+  getAppliedChannels,
+  DEFAULT_CHANNELS,
+} from './curve';
+import { applySecondaryTable, isSecondaryApplication } from './hsl';
+
+/**
+ * A whole-pixel color operation on unpremultiplied 0-255 RGB
+ */
+type ColorTransform = (
+  r: number,
+  g: number,
+  b: number
+) => [number, number, number];
+
+/**
+ * A table that maps every value to itself
+ */
+function identityTable(): Uint8Array {
+  const table = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) table[i] = i;
+  return table;
+}
+
+/**
+ * Fold the master LUT into each channel LUT (channel first, then master,
+ * as in applyLUT). The result has an identity master, so a pixel needs a
+ * single lookup per channel.
+ *
+ * With custom channel definitions, every per-component and 'rgb' curve is
+ * folded into the red, green, blue (and, if used, alpha) tables. Luminance
+ * and HSL curves depend on all three components and cannot be folded.
+ */
+export function precomposeLUT(
+  lut: PartialLUTData,
+  channels: readonly ChannelDefinition[] = DEFAULT_CHANNELS
+): LUTData {
+  const master = identityTable();
+  const red = identityTable();
+  const green = identityTable();
+  const blue = identityTable();
+  let alpha: Uint8Array | null = null;
+
+  const compose = (target: Uint8Array, table: Uint8Array) => {
+    for (let i = 0; i < 256; i++) target[i] = table[target[i]];
+  };
+
+  for (const channel of getAppliedChannels(channels)) {
+    const table = lut[channel.id];
+    if (!table) continue;
+
+    switch (channel.apply) {
+      case 'red':
+        compose(red, table);
+        break;
+      case 'green':
+        compose(green, table);
+        break;
+      case 'blue':
+        compose(blue, table);
+        break;
+      case 'alpha':
+        alpha = alpha ?? identityTable();
+        compose(alpha, table);
+        break;
+      case 'rgb':
+        compose(red, table);
+        compose(green, table);
+        compose(blue, table);
+        break;
+    }
+  }
+
+  return alpha
+    ? { master, red, green, blue, alpha }
+    : { master, red, green, blue };
+}
+
+const IDENTITY = identityTable();
+
+/**
+ * Channels with a table in the LUT that precomposeLUT cannot fold into
+ * per-component tables: luminance and HSL curves
+ */
+export function getUnfoldableChannels(
+  lut: PartialLUTData,
+  channels: readonly ChannelDefinition[] = DEFAULT_CHANNELS
+): ChannelDefinition[] {
+  return getAppliedChannels(channels).filter(
+    ({ id, apply }) =>
+      lut[id] !== undefined &&
+      (apply === 'luminance' || isSecondaryApplication(apply))
+  );
+}
+
+/**
+ * Luminance and HSL curves as per-pixel transforms, in application order
+ */
+function getColorTransforms(
+  lut: PartialLUTData,
+  channels: readonly ChannelDefinition[]
+): ColorTransform[] {
+  const transforms: ColorTransform[] = [];
+  for (const { id, apply } of getAppliedChannels(channels)) {
+    const table = lut[id];
+    if (!table) continue;
+
+    if (apply === 'luminance') {
+      transforms.push((r, g, b) => applyLuminanceTable(r, g, b, table));
+    } else if (isSecondaryApplication(apply)) {
+      transforms.push((r, g, b) => applySecondaryTable(r, g, b, apply, table));
+    }
+  }
+  return transforms;
+}
+
+/**
+ * Resolve the region to process, clamped to the buffer bounds
+ */
+function resolveRegion(
+  width: number,
+  height: number,
+  region?: PixelRegion
+): PixelRegion {
+  if (!region) return { x: 0, y: 0, width, height };
+
+  const x = Math.max(0, Math.floor(region.x));
+  const y = Math.max(0, Math.floor(region.y));
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(Math.floor(region.width), width - x)),
+    height: Math.max(0, Math.min(Math.floor(region.height), height - y)),
+  };
+}
+
+/**
+ * Process a contiguous run of pixels [start, end) with precomposed tables.
+ * Kept branch-free in the hot loop for each buffer layout.
+ */
+function processRun(
+  data: PixelBuffer,
+  out: PixelBuffer,
+  start: number,
+  end: number,
+  channels: 3 | 4,
+  premultiplied: boolean,
+  red: Uint8Array,
+  green: Uint8Array,
+  blue: Uint8Array,
+  alpha: Uint8Array | undefined
+) {
+  if (channels === 4 && premultiplied) {
+    const alphaTable = alpha ?? IDENTITY;
+    for (let i = start; i < end; i += 4) {
+      const a = data[i + 3];
+      const na = alphaTable[a];
+      if (a === 0) {
+        // Color is unknown at zero alpha
+        out[i] = out[i + 1] = out[i + 2] = 0;
+        out[i + 3] = na;
+        continue;
+      }
+      // Un-premultiply, look up, re-premultiply with the new alpha
+      const k = 255 / a;
+      out[i] = Math.round((red[Math.min(255, Math.round(data[i] * k))] * na) / 255);
+      out[i + 1] = Math.round(
+        (green[Math.min(255, Math.round(data[i + 1] * k))] * na) / 255
+      );
+      out[i + 2] = Math.round(
+        (blue[Math.min(255, Math.round(data[i + 2] * k))] * na) / 255
+      );
+      out[i + 3] = na;
+    }
+  } else if (channels === 4 && alpha) {
+    for (let i = start; i < end; i += 4) {
+      out[i] = red[data[i]];
+      out[i + 1] = green[data[i + 1]];
+      out[i + 2] = blue[data[i + 2]];
+      out[i + 3] = alpha[data[i + 3]];
+    }
+  } else if (channels === 4 && out !== data) {
+    for (let i = start; i < end; i += 4) {
+      out[i] = red[data[i]];
+      out[i + 1] = green[data[i + 1]];
+      out[i + 2] = blue[data[i + 2]];
+      out[i + 3] = data[i + 3];
+    }
+  } else {
+    for (let i = start; i < end; i += channels) {
+      out[i] = red[data[i]];
+      out[i + 1] = green[data[i + 1]];
+      out[i + 2] = blue[data[i + 2]];
+    }
+  }
+}
+
+/**
+ * Apply luminance and HSL curves to a run that has already been written
+ * to out
+ */
+function processColorRun(
+  out: PixelBuffer,
+  start: number,
+  end: number,
+  channels: 3 | 4,
+  premultiplied: boolean,
+  transforms: ColorTransform[]
+) {
+  const unpremultiply = channels === 4 && premultiplied;
+
+  for (let i = start; i < end; i += channels) {
+    const a = unpremultiply ? out[i + 3] : 255;
+    if (a === 0) continue;
+
+    const k = unpremultiply ? 255 / a : 1;
+    let r = Math.min(255, Math.round(out[i] * k));
+    let g = Math.min(255, Math.round(out[i + 1] * k));
+    let b = Math.min(255, Math.round(out[i + 2] * k));
+
+    for (const transform of transforms) {
+      [r, g, b] = transform(r, g, b);
+    }
+
+    out[i] = unpremultiply ? Math.round((r * a) / 255) : r;
+    out[i + 1] = unpremultiply ? Math.round((g * a) / 255) : g;
+    out[i + 2] = unpremultiply ? Math.round((b * a) / 255) : b;
+  }
+}
+
+/**
+ * Apply a LUT to an RGBA or RGB pixel buffer.
+ * Works in place unless a destination is given; alpha only changes when an
+ * alpha channel is defined. Without a width the buffer is treated as
+ * tightly packed pixels.
+ */
+export function applyLUTToBuffer<T extends PixelBuffer>(
+  data: T,
+  lut: PartialLUTData,
+  options: ApplyLUTBufferOptions<T> = {}
+): T {
+  const {
+    channels = 4,
+    destination = data,
+    premultiplied = false,
+    curveChannels = DEFAULT_CHANNELS,
+  } = options;
+  const { red, green, blue, alpha } = precomposeLUT(lut, curveChannels);
+  const transforms = getColorTransforms(lut, curveChannels);
+
+  const run = (start: number, end: number) => {
+    processRun(
+      data,
+      destination,
+      start,
+      end,
+      channels,
+      premultiplied,
+      red,
+      green,
+      blue,
+      alpha
+    );
+    if (transforms.length > 0) {
+      processColorRun(destination, start, end, channels, premultiplied, transforms);
+    }
+  };
+
+  if (options.width === undefined) {
+    run(0, data.length - (data.length % channels));
+    return destination;
+  }
+
+  const width = options.width;
+  const stride = options.stride ?? width * channels;
+  const height = options.height ?? Math.floor(data.length / stride);
+  const region = resolveRegion(width, height, options.region);
+
+  for (let y = region.y; y < region.y + region.height; y++) {
+    const start = y * stride + region.x * channels;
+    run(start, start + region.width * channels);
+  }
+
+  return destination;
+}
+
+/**
+ * Apply a LUT to ImageData (in place unless a destination is given)
+ */
+export function applyLUTToImageData(
+  imageData: ImageData,
+  lut: PartialLUTData,
+  options: ApplyLUTImageDataOptions = {}
+): ImageData {
+  const { destination = imageData, region, curveChannels } = options;
+
+  if (
+    destination.width !== imageData.width ||
+    destination.height !== imageData.height
+  ) {
+    throw new Error('Destination ImageData must match the source dimensions');
+  }
+
+  applyLUTToBuffer(imageData.data, lut, {
+    channels: 4,
+    width: imageData.width,
+    height: imageData.height,
+    region,
+    destination: destination.data,
+    curveChannels,
+  });
+
+  return destination;
+}
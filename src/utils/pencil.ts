@@ -0,0 +1,73 @@
+import { CurvePoint } from '../types';
+import { clamp } from './curve';
+import { DEFAULT_SMOOTH_RADIUS } from './constants';
+
+/**
+ * Value of a 256-entry table at a fractional input, interpolated linearly
+ * between neighbouring entries
+ */
+export function sampleTable(table: ArrayLike<number>, x: number): number {
+  const position = clamp(x, 0, 255);
+  const i = Math.floor(position);
+  if (i >= 255) return table[255];
+  const t = position - i;
+  return table[i] + (table[i + 1] - table[i]) * t;
+}
+
+/**
+ * Copy of a table with a straight pencil stroke from one point to another.
+ * Every entry between the two inputs is written, so fast strokes that skip
+ * pixels leave no gaps.
+ */
+export function drawTableSegment(
+  table: ArrayLike<number>,
+  from: CurvePoint,
+  to: CurvePoint
+): Uint8Array {
+  const result = Uint8Array.from(table);
+  const x0 = Math.round(clamp(from.x, 0, 255));
+  const x1 = Math.round(clamp(to.x, 0, 255));
+  const step = x1 >= x0 ? 1 : -1;
+  const span = Math.abs(x1 - x0);
+
+  for (let i = 0; i <= span; i++) {
+    const t = span === 0 ? 1 : i / span;
+    const y = from.y + (to.y - from.y) * t;
+    result[x0 + i * step] = Math.round(clamp(y, 0, 255));
+  }
+
+  return result;
+}
+
+/**
+ * Smooth a table with a moving average. Near the ends the window shrinks to
+ * the entries available; periodic (hue) tables wrap around instead. Apply
+ * repeatedly for a stronger effect.
+ */
+export function smoothTable(
+  table: ArrayLike<number>,
+  radius: number = DEFAULT_SMOOTH_RADIUS,
+  periodic: boolean = false
+): Uint8Array {
+  const size = table.length;
+  const result = new Uint8Array(size);
+  const r = Math.max(0, Math.round(radius));
+
+  for (let i = 0; i < size; i++) {
+    let sum = 0;
+    let count = 0;
+    for (let j = i - r; j <= i + r; j++) {
+      if (periodic) {
+        sum += table[(j + size) % size];
+      } else if (j >= 0 && j < size) {
+        sum += table[j];
+      } else {
+        continue;
+      }
+      count++;
+    }
+    result[i] = Math.round(sum / count);
+  }
+
+  return result;
+}
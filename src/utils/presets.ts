@@ -0,0 +1,216 @@
+import { CurvePreset, ChannelPoints } from '../types';
+import { sortPoints } from './curve';
+import { validateChannelPoints, formatValidationIssues } from './serialize';
+import { CUSTOM_PRESET_CATEGORY } from './constants';
+
+/**
+ * Looks that ship with the library
+ */
+const BUILT_IN_PRESETS: readonly CurvePreset[] = [
+  {
+    name: 'Medium Contrast',
+    category: 'Contrast',
+    points: {
+      master: [
+        { x: 0, y: 0 },
+        { x: 64, y: 56 },
+        { x: 192, y: 200 },
+        { x: 255, y: 255 },
+      ],
+    },
+  },
+  {
+    name: 'Strong Contrast',
+    category: 'Contrast',
+    points: {
+      master: [
+        { x: 0, y: 0 },
+        { x: 64, y: 44 },
+        { x: 192, y: 212 },
+        { x: 255, y: 255 },
+      ],
+    },
+  },
+  {
+    name: 'Lighter',
+    category: 'Tone',
+    points: {
+      master: [
+        { x: 0, y: 0 },
+        { x: 128, y: 160 },
+        { x: 255, y: 255 },
+      ],
+    },
+  },
+  {
+    name: 'Darker',
+    category: 'Tone',
+    points: {
+      master: [
+        { x: 0, y: 0 },
+        { x: 128, y: 96 },
+        { x: 255, y: 255 },
+      ],
+    },
+  },
+  {
+    name: 'Fade',
+    category: 'Tone',
+    points: {
+      master: [
+        { x: 0, y: 40 },
+        { x: 128, y: 136 },
+        { x: 255, y: 235 },
+      ],
+    },
+  },
+  {
+    name: 'Cross Process',
+    category: 'Color',
+    points: {
+      red: [
+        { x: 0, y: 0 },
+        { x: 64, y: 44 },
+        { x: 192, y: 216 },
+        { x: 255, y: 255 },
+      ],
+      green: [
+        { x: 0, y: 0 },
+        { x: 64, y: 52 },
+        { x: 192, y: 208 },
+        { x: 255, y: 255 },
+      ],
+      blue: [
+        { x: 0, y: 32 },
+        { x: 255, y: 216 },
+      ],
+    },
+  },
+  {
+    name: 'Negative',
+    category: 'Effect',
+    points: {
+      master: [
+        { x: 0, y: 255 },
+        { x: 255, y: 0 },
+      ],
+    },
+  },
+];
+
+/**
+ * Presets added with registerPreset, in registration order
+ */
+const customPresets = new Map<string, CurvePreset>();
+
+const presetListeners = new Set<() => void>();
+
+// Rebuilt on every change so subscribers can compare by reference
+let presetSnapshot: readonly CurvePreset[] = BUILT_IN_PRESETS;
+
+function notifyPresetListeners(): void {
+  presetSnapshot = [...BUILT_IN_PRESETS, ...customPresets.values()];
+  presetListeners.forEach((listener) => listener());
+}
+
+/**
+ * Whether a name belongs to a preset that ships with the library
+ */
+export function isBuiltInPreset(name: string): boolean {
+  return BUILT_IN_PRESETS.some((preset) => preset.name === name);
+}
+
+/**
+ * Register a custom preset. Registering a name again replaces it; built-in
+ * names cannot be replaced. Presets without a category go under 'Custom'.
+ * Points may be unsorted; otherwise invalid points throw.
+ */
+export function registerPreset(preset: CurvePreset): CurvePreset {
+  const name = preset.name.trim();
+  if (name === '') {
+    throw new Error('Preset name cannot be empty');
+  }
+  if (isBuiltInPreset(name)) {
+    throw new Error(`Cannot replace the built-in "${name}" preset`);
+  }
+
+  const issues = validateChannelPoints(preset.points, false);
+  if (issues.length > 0) {
+    throw new Error(
+      `Invalid "${name}" preset: ${formatValidationIssues(issues)}`
+    );
+  }
+
+  const points: Partial<ChannelPoints> = {};
+  for (const [channel, channelPoints] of Object.entries(preset.points)) {
+    if (channelPoints) points[channel] = sortPoints(channelPoints);
+  }
+
+  const registered: CurvePreset = {
+    name,
+    category: preset.category?.trim() || CUSTOM_PRESET_CATEGORY,
+    points,
+  };
+  customPresets.set(name, registered);
+  notifyPresetListeners();
+  return registered;
+}
+
+/**
+ * Remove a custom preset. Returns false if there was none by that name.
+ */
+export function unregisterPreset(name: string): boolean {
+  const removed = customPresets.delete(name);
+  if (removed) notifyPresetListeners();
+  return removed;
+}
+
+/**
+ * Look up a built-in or custom preset by name
+ */
+export function getPreset(name: string): CurvePreset {
+  const preset =
+    BUILT_IN_PRESETS.find((p) => p.name === name) ?? customPresets.get(name);
+  if (!preset) {
+    throw new Error(`Unknown preset: "${name}"`);
+  }
+  return preset;
+}
+
+/**
+ * Built-in presets followed by custom ones, optionally from one category
+ */
+export function getPresets(category?: string): readonly CurvePreset[] {
+  return category === undefined
+    ? presetSnapshot
+    : presetSnapshot.filter((preset) => preset.category === category);
+}
+
+/**
+ * Custom presets only, e.g. for saving to local storage
+ */
+export function getCustomPresets(): CurvePreset[] {
+  return [...customPresets.values()];
+}
+
+/**
+ * Categories in the order their first preset appears
+ */
+export function getPresetCategories(): string[] {
+  return Array.from(
+    new Set(
+      presetSnapshot.map((preset) => preset.category ?? CUSTOM_PRESET_CATEGORY)
+    )
+  );
+}
+
+/**
+ * Call listener whenever presets are registered or removed. Returns a
+ * function that unsubscribes.
+ */
+export function subscribePresets(listener: () => void): () => void {
+  presetListeners.add(listener);
+  return () => {
+    presetListeners.delete(listener);
+  };
+}
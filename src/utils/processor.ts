@@ -0,0 +1,357 @@
+import {
+  LUTData,
+  PartialLUTData,
+  LUTProcessor,
+  LUTProcessorInput,
+  LUTProcessorOptions,
+  LUTProcessOptions,
+} from '../types';
+import { DEFAULT_CHANNELS } from './curve';
+import {
+  applyLUTToImageData,
+  getUnfoldableChannels,
+  precomposeLUT,
+} from './image';
+
+/**
+ * Worker body: reads pixels (from a transferred buffer or ImageBitmap),
+ * applies the precomposed tables and transfers the buffer back
+ */
+const WORKER_SOURCE = `
+self.onmessage = function (e) {
+  var msg = e.data;
+  try {
+    var buffer = msg.buffer;
+    var width = msg.width;
+    var height = msg.height;
+    if (msg.bitmap) {
+      var canvas = new OffscreenCanvas(msg.bitmap.width, msg.bitmap.height);
+      var ctx = canvas.getContext('2d');
+      ctx.drawImage(msg.bitmap, 0, 0);
+      msg.bitmap.close();
+      var image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      buffer = image.data.buffer;
+      width = image.width;
+      height = image.height;
+    }
+    var data = new Uint8ClampedArray(buffer);
+    var red = msg.red, green = msg.green, blue = msg.blue, alpha = msg.alpha;
+    for (var i = 0; i < data.length; i += 4) {
+      data[i] = red[data[i]];
+      data[i + 1] = green[data[i + 1]];
+      data[i + 2] = blue[data[i + 2]];
+    }
+    if (alpha) {
+      for (var j = 3; j < data.length; j += 4) data[j] = alpha[data[j]];
+    }
+    self.postMessage({ id: msg.id, buffer: buffer, width: width, height: height }, [buffer]);
+  } catch (error) {
+    self.postMessage({ id: msg.id, error: String((error && error.message) || error) });
+  }
+};
+`;
+
+interface WorkerResponse {
+  id: number;
+  buffer?: ArrayBuffer;
+  width?: number;
+  height?: number;
+  error?: string;
+}
+
+interface PendingTask {
+  resolve: (image: ImageData) => void;
+  reject: (error: unknown) => void;
+}
+
+interface RenderJob {
+  input: LUTProcessorInput;
+  lut: PartialLUTData;
+  options: LUTProcessOptions;
+  resolve: (image: ImageData | null) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Check whether Web Workers can be created from a Blob URL here
+ */
+function canCreateWorker(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof Blob !== 'undefined' &&
+    typeof URL !== 'undefined' &&
+    typeof URL.createObjectURL === 'function'
+  );
+}
+
+function isImageData(input: LUTProcessorInput): input is ImageData {
+  return (
+    typeof (input as ImageData).data !== 'undefined' &&
+    typeof (input as ImageData).width === 'number'
+  );
+}
+
+function isOffscreenCanvas(input: LUTProcessorInput): input is OffscreenCanvas {
+  return (
+    typeof OffscreenCanvas !== 'undefined' && input instanceof OffscreenCanvas
+  );
+}
+
+/**
+ * Build ImageData, falling back to a plain object where the constructor
+ * does not exist (e.g. Node)
+ */
+function createImageData(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number
+): ImageData {
+  if (typeof ImageData !== 'undefined') {
+    return new ImageData(data as ImageData['data'], width, height);
+  }
+  return { data, width, height, colorSpace: 'srgb' } as ImageData;
+}
+
+function getAbortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+}
+
+/**
+ * Read pixels on the calling thread (synchronous fallback)
+ */
+function readPixels(input: LUTProcessorInput, transfer: boolean): ImageData {
+  if (isImageData(input)) {
+    return transfer
+      ? input
+      : createImageData(new Uint8ClampedArray(input.data), input.width, input.height);
+  }
+
+  if (typeof OffscreenCanvas === 'undefined') {
+    throw new Error('ImageBitmap and OffscreenCanvas inputs need OffscreenCanvas support');
+  }
+
+  if (isOffscreenCanvas(input)) {
+    const ctx = input.getContext('2d');
+    if (!ctx) throw new Error('Could not read pixels from OffscreenCanvas');
+    return ctx.getImageData(0, 0, input.width, input.height);
+  }
+
+  const canvas = new OffscreenCanvas(input.width, input.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not read pixels from ImageBitmap');
+  ctx.drawImage(input, 0, 0);
+  if (transfer) input.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * Create a processor that applies LUTs to images off the main thread.
+ * Falls back to synchronous processing when workers are unavailable.
+ */
+export function createLUTProcessor(
+  options: LUTProcessorOptions = {}
+): LUTProcessor {
+  const usesWorker = (options.useWorker ?? true) && canCreateWorker();
+
+  let worker: Worker | null = null;
+  let workerUrl: string | null = null;
+  let nextId = 0;
+  const pending = new Map<number, PendingTask>();
+
+  let latestRender: RenderJob | null = null;
+  let rendering = false;
+
+  const rejectPending = (error: unknown) => {
+    pending.forEach((task) => task.reject(error));
+    pending.clear();
+  };
+
+  // Drop the worker so the next job starts a fresh one
+  const resetWorker = () => {
+    worker?.terminate();
+    worker = null;
+    if (workerUrl) {
+      URL.revokeObjectURL(workerUrl);
+      workerUrl = null;
+    }
+  };
+
+  const getWorker = (): Worker => {
+    if (worker) return worker;
+
+    workerUrl = URL.createObjectURL(
+      new Blob([WORKER_SOURCE], { type: 'text/javascript' })
+    );
+    worker = new Worker(workerUrl);
+
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const { id, buffer, width, height, error } = e.data;
+      const task = pending.get(id);
+      if (!task) return; // Cancelled
+      pending.delete(id);
+
+      if (error !== undefined || !buffer) {
+        task.reject(new Error(error ?? 'Worker returned no data'));
+      } else {
+        task.resolve(createImageData(new Uint8ClampedArray(buffer), width!, height!));
+      }
+    };
+
+    // A failed worker may never answer again: reject what it holds and
+    // replace it on the next job
+    worker.onerror = (e: ErrorEvent) => {
+      resetWorker();
+      rejectPending(new Error(e.message || 'LUT worker failed'));
+    };
+    worker.onmessageerror = () => {
+      resetWorker();
+      rejectPending(new Error('LUT worker sent a message that could not be read'));
+    };
+
+    return worker;
+  };
+
+  const runInWorker = async (
+    input: LUTProcessorInput,
+    tables: LUTData,
+    transfer: boolean,
+    signal?: AbortSignal
+  ): Promise<ImageData> => {
+    const id = nextId++;
+    const message: Record<string, unknown> = {
+      id,
+      red: tables.red,
+      green: tables.green,
+      blue: tables.blue,
+      alpha: tables.alpha,
+    };
+    const transferList: Transferable[] = [];
+
+    if (isImageData(input)) {
+      const buffer = transfer
+        ? (input.data.buffer as ArrayBuffer)
+        : (input.data.slice().buffer as ArrayBuffer);
+      message.buffer = buffer;
+      message.width = input.width;
+      message.height = input.height;
+      transferList.push(buffer);
+    } else {
+      // Snapshot canvases (and copied bitmaps) so the worker can own them
+      const bitmap =
+        isOffscreenCanvas(input) || !transfer
+          ? await createImageBitmap(input)
+          : input;
+      message.bitmap = bitmap;
+      transferList.push(bitmap);
+    }
+
+    if (signal?.aborted) throw getAbortReason(signal);
+
+    return new Promise<ImageData>((resolve, reject) => {
+      const onAbort = () => {
+        pending.delete(id);
+        reject(getAbortReason(signal!));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      pending.set(id, {
+        resolve: (image) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(image);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      });
+
+      try {
+        getWorker().postMessage(message, transferList);
+      } catch (error) {
+        pending.get(id)?.reject(error);
+        pending.delete(id);
+      }
+    });
+  };
+
+  const process = async (
+    inputs: LUTProcessorInput | LUTProcessorInput[],
+    lut: PartialLUTData,
+    processOptions: LUTProcessOptions = {}
+  ): Promise<ImageData[]> => {
+    const {
+      signal,
+      onProgress,
+      transfer = true,
+      curveChannels = DEFAULT_CHANNELS,
+    } = processOptions;
+    const list = Array.isArray(inputs) ? inputs : [inputs];
+    const tables = precomposeLUT(lut, curveChannels);
+    // The worker only does per-component lookups; luminance and HSL curves
+    // mix the components, so those LUTs are applied on this thread
+    const inWorker =
+      usesWorker && getUnfoldableChannels(lut, curveChannels).length === 0;
+    const results: ImageData[] = [];
+
+    for (let i = 0; i < list.length; i++) {
+      if (signal?.aborted) throw getAbortReason(signal);
+
+      let result: ImageData;
+      if (inWorker) {
+        result = await runInWorker(list[i], tables, transfer, signal);
+      } else {
+        result = applyLUTToImageData(readPixels(list[i], transfer), lut, {
+          curveChannels,
+        });
+      }
+
+      results.push(result);
+      onProgress?.({ index: i, completed: i + 1, total: list.length });
+    }
+
+    return results;
+  };
+
+  const drainRenders = async () => {
+    rendering = true;
+    while (latestRender) {
+      const job = latestRender;
+      latestRender = null;
+      try {
+        const [result] = await process(job.input, job.lut, job.options);
+        job.resolve(result);
+      } catch (error) {
+        job.reject(error);
+      }
+    }
+    rendering = false;
+  };
+
+  const render = (
+    input: LUTProcessorInput,
+    lut: PartialLUTData,
+    renderOptions: LUTProcessOptions = {}
+  ): Promise<ImageData | null> => {
+    return new Promise((resolve, reject) => {
+      // A newer LUT supersedes any render that has not started yet
+      latestRender?.resolve(null);
+      latestRender = {
+        input,
+        lut,
+        options: { transfer: false, ...renderOptions },
+        resolve,
+        reject,
+      };
+      if (!rendering) drainRenders();
+    });
+  };
+
+  const terminate = () => {
+    latestRender?.resolve(null);
+    latestRender = null;
+    rejectPending(new DOMException('The LUT processor was terminated.', 'AbortError'));
+    resetWorker();
+  };
+
+  return { usesWorker, process, render, terminate };
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CURVES_FORMAT_VERSION,
+  decodeCurves,
+  deserializeCurves,
+  encodeCurves,
+  serializeCurves,
+  validateCurves,
+} from './serialize';
+import { getDefaultChannelPoints } from './curve';
+
+const points = {
+  ...getDefaultChannelPoints(),
+  red: [
+    { x: 0, y: 10 },
+    { x: 128, y: 140 },
+    { x: 255, y: 250 },
+  ],
+};
+
+const invert = Uint8Array.from({ length: 256 }, (_, i) => 255 - i);
+
+describe('serializeCurves / deserializeCurves', () => {
+  it('round-trips points, tables and metadata', () => {
+    const json = serializeCurves(points, {
+      interpolation: 'catmullRom',
+      tables: { blue: invert },
+      metadata: { name: 'Warm' },
+    });
+    const document = deserializeCurves(json);
+
+    expect(document.version).toBe(CURVES_FORMAT_VERSION);
+    expect(document.interpolation).toBe('catmullRom');
+    expect(document.points).toEqual(points);
+    expect(document.tables?.blue).toEqual(invert);
+    expect(document.metadata).toEqual({ name: 'Warm' });
+  });
+
+  it('sorts points before writing', () => {
+    const json = serializeCurves({ red: [...points.red].reverse() });
+    expect(deserializeCurves(json).points.red).toEqual(points.red);
+  });
+
+  it('migrates unversioned points', () => {
+    const document = deserializeCurves(JSON.stringify(points));
+    expect(document.version).toBe(CURVES_FORMAT_VERSION);
+    expect(document.interpolation).toBe('monotone');
+    expect(document.points).toEqual(points);
+  });
+
+  it('runs custom migrations from older versions', () => {
+    const document = deserializeCurves(
+      { version: 0, curves: points },
+      {
+        migrations: {
+          0: (data) => ({
+            version: 1,
+            interpolation: 'linear',
+            points: data.curves,
+          }),
+        },
+      }
+    );
+    expect(document.interpolation).toBe('linear');
+    expect(document.points).toEqual(points);
+  });
+
+  it('rejects newer versions and bad JSON', () => {
+    expect(() => deserializeCurves({ version: 99 })).toThrow(
+      'Unsupported curves format version 99'
+    );
+    expect(() => deserializeCurves('{')).toThrow('Invalid curves JSON');
+  });
+});
+
+describe('validateCurves', () => {
+  it('reports every problem with its path', () => {
+    const issues = validateCurves({
+      version: CURVES_FORMAT_VERSION,
+      interpolation: 'monotone',
+      points: {
+        master: [
+          { x: 0, y: 0 },
+          { x: 300, y: NaN },
+        ],
+        red: [{ x: 0, y: 0 }],
+        green: [
+          { x: 0, y: 0 },
+          { x: 0, y: 5 },
+        ],
+        blue: [
+          { x: 255, y: 255 },
+          { x: 0, y: 0 },
+        ],
+      },
+    });
+
+    expect(issues.map(({ path }) => path)).toEqual([
+      'points.master[1].x',
+      'points.master[1].y',
+      'points.red',
+      'points.green[1].x',
+      'points.blue[1].x',
+    ]);
+    expect(issues[0].message).toBe('300 is outside 0-255');
+    expect(issues[1].message).toBe('must be a number, got NaN');
+  });
+
+  it('throws the joined issues from serializeCurves', () => {
+    expect(() => serializeCurves({ red: [{ x: 0, y: 0 }] })).toThrow(
+      'Invalid curves: points.red has 1 point; at least 2 are needed'
+    );
+  });
+});
+
+describe('encodeCurves / decodeCurves', () => {
+  it('round-trips curves through a URL-safe string', () => {
+    const encoded = encodeCurves(points, {
+      interpolation: 'bezier',
+      tables: { blue: invert },
+      metadata: { name: 'Warm' },
+    });
+    const document = decodeCurves(encoded);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(document.interpolation).toBe('bezier');
+    expect(document.points).toEqual(points);
+    expect(document.tables?.blue).toEqual(invert);
+    expect(document.metadata).toEqual({ name: 'Warm' });
+  });
+
+  it('is much shorter than encoding the JSON', () => {
+    const encoded = encodeCurves(points);
+    const json = serializeCurves(points);
+    expect(encoded.length * 3).toBeLessThan(json.length);
+  });
+
+  it('keeps point types and bezier handles', () => {
+    const curve = [
+      { x: 0, y: 0 },
+      {
+        x: 100,
+        y: 80,
+        type: 'corner' as const,
+        handleIn: { x: -20, y: -4 },
+        handleOut: { x: 30, y: 12 },
+      },
+      { x: 255, y: 255, type: 'linear' as const },
+    ];
+    const { points: decoded } = decodeCurves(encodeCurves({ green: curve }));
+    expect(decoded.green).toEqual(curve);
+  });
+
+  it('fills in identity channels and rounds coordinates', () => {
+    const { points: decoded } = decodeCurves(
+      encodeCurves({
+        red: [
+          { x: 0, y: 0 },
+          { x: 100.4, y: 20.6 },
+          { x: 255, y: 255 },
+        ],
+      })
+    );
+    expect(decoded.master).toEqual(points.master);
+    expect(decoded.red[1]).toEqual({ x: 100, y: 21 });
+  });
+
+  it('throws when points collide once rounded, and on damaged input', () => {
+    expect(() =>
+      encodeCurves({
+        red: [
+          { x: 0, y: 0 },
+          { x: 10.2, y: 1 },
+          { x: 10.4, y: 2 },
+          { x: 255, y: 255 },
+        ],
+      })
+    ).toThrow('round to the same x 10');
+    expect(() => decodeCurves(encodeCurves(points).slice(0, 8))).toThrow(
+      'Invalid curves encoding: data ends early'
+    );
+    expect(() => decodeCurves('!!')).toThrow('not base64url');
+  });
+});
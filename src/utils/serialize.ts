@@ -0,0 +1,682 @@
+import {
+  ChannelPoints,
+  ChannelTables,
+  CurvePoint,
+  CurvesDocument,
+  CurvesMigration,
+  CurveValidationIssue,
+  DeserializeCurvesOptions,
+  PointType,
+  SerializeCurvesOptions,
+} from '../types';
+import { getDefaultPoints, sortPoints } from './curve';
+
+/**
+ * Version written by serializeCurves. Older data is migrated on read.
+ */
+export const CURVES_FORMAT_VERSION = 1;
+
+const POINT_TYPES = ['smooth', 'corner', 'linear'];
+
+/**
+ * Upgrades from each older version to the next. Version 0 is a bare
+ * ChannelPoints object, as stored before the format was versioned.
+ */
+const BUILT_IN_MIGRATIONS: Record<number, CurvesMigration> = {
+  0: (data) => ({
+    version: 1,
+    interpolation: 'monotone',
+    points: data,
+  }),
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Show a bad value in a message: NaN and undefined don't survive JSON
+function describeValue(value: unknown): string {
+  if (typeof value === 'number' || value === undefined) return String(value);
+  return JSON.stringify(value) ?? String(value);
+}
+
+/**
+ * Check a 0-255 coordinate, returning a problem or null
+ */
+function checkCoordinate(value: unknown): string | null {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    return `must be a number, got ${describeValue(value)}`;
+  }
+  if (value < 0 || value > 255) {
+    return `${value} is outside 0-255`;
+  }
+  return null;
+}
+
+function validatePointList(
+  list: unknown,
+  path: string,
+  requireSorted: boolean,
+  issues: CurveValidationIssue[]
+): void {
+  if (!Array.isArray(list)) {
+    issues.push({ path, message: 'must be an array of points' });
+    return;
+  }
+  if (list.length < 2) {
+    issues.push({
+      path,
+      message: `has ${list.length} point${
+        list.length === 1 ? '' : 's'
+      }; at least 2 are needed`,
+    });
+  }
+
+  const inputs: { x: number; index: number }[] = [];
+  list.forEach((point: unknown, index) => {
+    const pointPath = `${path}[${index}]`;
+    if (!isObject(point)) {
+      issues.push({
+        path: pointPath,
+        message: 'must be an object with x and y',
+      });
+      return;
+    }
+
+    for (const key of ['x', 'y'] as const) {
+      const problem = checkCoordinate(point[key]);
+      if (problem) {
+        issues.push({ path: `${pointPath}.${key}`, message: problem });
+      }
+    }
+    if (typeof point.x === 'number' && !Number.isNaN(point.x)) {
+      inputs.push({ x: point.x, index });
+    }
+
+    const { type } = point;
+    if (type !== undefined && !POINT_TYPES.includes(type as string)) {
+      issues.push({
+        path: `${pointPath}.type`,
+        message: `must be one of ${POINT_TYPES.join(', ')}, got ${describeValue(
+          type
+        )}`,
+      });
+    }
+    for (const key of ['handleIn', 'handleOut'] as const) {
+      const handle = point[key];
+      if (handle === undefined) continue;
+      const valid =
+        isObject(handle) &&
+        Number.isFinite(handle.x) &&
+        Number.isFinite(handle.y);
+      if (!valid) {
+        issues.push({
+          path: `${pointPath}.${key}`,
+          message: 'must be an object with finite x and y offsets',
+        });
+      }
+    }
+  });
+
+  // Unsorted input is only reported where sorting is required; duplicates
+  // are reported either way
+  const ordered = requireSorted
+    ? inputs
+    : [...inputs].sort((a, b) => a.x - b.x);
+  for (let i = 1; i < ordered.length; i++) {
+    const previous = ordered[i - 1];
+    const current = ordered[i];
+    const xPath = `${path}[${current.index}].x`;
+    if (current.x === previous.x) {
+      issues.push({
+        path: xPath,
+        message: `duplicates x ${current.x} of point ${previous.index}`,
+      });
+    } else if (current.x < previous.x) {
+      issues.push({
+        path: xPath,
+        message: `${current.x} is less than the previous point's ${previous.x} (points must be sorted by x)`,
+      });
+    }
+  }
+}
+
+/**
+ * Check points for every channel: at least 2 points each, x and y numbers
+ * within 0-255, no duplicate x and, unless requireSorted is false, sorted
+ * by x. Returns every problem found (empty when valid).
+ */
+export function validateChannelPoints(
+  points: unknown,
+  requireSorted: boolean = true,
+  path: string = 'points'
+): CurveValidationIssue[] {
+  const issues: CurveValidationIssue[] = [];
+  if (!isObject(points)) {
+    issues.push({
+      path,
+      message: 'must be an object of point arrays keyed by channel',
+    });
+    return issues;
+  }
+
+  for (const [channel, list] of Object.entries(points)) {
+    if (list === undefined) continue;
+    validatePointList(list, `${path}.${channel}`, requireSorted, issues);
+  }
+  return issues;
+}
+
+/**
+ * Check serialized curves in the current format version. Returns every
+ * problem found (empty when valid).
+ */
+export function validateCurves(data: unknown): CurveValidationIssue[] {
+  if (!isObject(data)) {
+    return [{ path: '', message: 'must be an object' }];
+  }
+
+  const issues: CurveValidationIssue[] = [];
+  if (data.version !== CURVES_FORMAT_VERSION) {
+    issues.push({
+      path: 'version',
+      message: `must be ${CURVES_FORMAT_VERSION}, got ${describeValue(
+        data.version
+      )}`,
+    });
+  }
+  if (typeof data.interpolation !== 'string') {
+    issues.push({
+      path: 'interpolation',
+      message: `must be an interpolation name, got ${describeValue(
+        data.interpolation
+      )}`,
+    });
+  }
+
+  issues.push(...validateChannelPoints(data.points));
+
+  if (data.tables !== undefined) {
+    if (!isObject(data.tables)) {
+      issues.push({
+        path: 'tables',
+        message: 'must be an object of tables keyed by channel',
+      });
+    } else {
+      for (const [channel, table] of Object.entries(data.tables)) {
+        const valid =
+          Array.isArray(table) &&
+          table.length === 256 &&
+          table.every((v) => Number.isInteger(v) && v >= 0 && v <= 255);
+        if (!valid) {
+          issues.push({
+            path: `tables.${channel}`,
+            message: 'must be 256 whole numbers within 0-255',
+          });
+        }
+      }
+    }
+  }
+
+  if (data.metadata !== undefined && !isObject(data.metadata)) {
+    issues.push({ path: 'metadata', message: 'must be an object' });
+  }
+
+  return issues;
+}
+
+/**
+ * Join validation issues into one error message
+ */
+export function formatValidationIssues(
+  issues: CurveValidationIssue[]
+): string {
+  return issues
+    .map(({ path, message }) => (path ? `${path} ${message}` : message))
+    .join('; ');
+}
+
+/**
+ * Bring serialized curves up to the current format version. Data without
+ * a version is treated as version 0 (bare ChannelPoints).
+ */
+export function migrateCurves(
+  data: unknown,
+  migrations: Record<number, CurvesMigration> = {}
+): Record<string, unknown> {
+  if (!isObject(data)) {
+    throw new Error('Invalid curves: expected an object');
+  }
+
+  let current = data;
+  const stored = 'version' in current ? current.version : 0;
+  if (typeof stored !== 'number' || !Number.isInteger(stored) || stored < 0) {
+    throw new Error(`Invalid curves: bad version ${describeValue(stored)}`);
+  }
+  let version = stored;
+  if (version > CURVES_FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported curves format version ${version} (newest supported is ${CURVES_FORMAT_VERSION})`
+    );
+  }
+
+  while (version < CURVES_FORMAT_VERSION) {
+    const migrate = migrations[version] ?? BUILT_IN_MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from curves format version ${version}`);
+    }
+
+    current = migrate(current);
+    const next: unknown = current.version;
+    if (typeof next !== 'number' || next <= version) {
+      throw new Error(
+        `Migration from curves format version ${version} did not raise the version`
+      );
+    }
+    version = next;
+  }
+
+  return current;
+}
+
+/**
+ * Build the serialized form of curves: the format version, interpolation
+ * and optional pencil tables and metadata. Points are sorted first; invalid
+ * points throw.
+ */
+function buildCurvesData(
+  points: Partial<ChannelPoints>,
+  options: SerializeCurvesOptions
+): Record<string, unknown> {
+  const { interpolation = 'monotone', tables, metadata } = options;
+  if (typeof interpolation === 'function') {
+    throw new Error(
+      'Cannot serialize an interpolation function; register it with a name'
+    );
+  }
+
+  const sorted: Partial<ChannelPoints> = {};
+  for (const [channel, list] of Object.entries(points)) {
+    if (list) sorted[channel] = Array.isArray(list) ? sortPoints(list) : list;
+  }
+
+  const data: Record<string, unknown> = {
+    version: CURVES_FORMAT_VERSION,
+    interpolation,
+    points: sorted,
+  };
+  if (tables && Object.keys(tables).length > 0) {
+    data.tables = Object.fromEntries(
+      Object.entries(tables).map(([channel, table]) => [
+        channel,
+        Array.from(table),
+      ])
+    );
+  }
+  if (metadata !== undefined) {
+    data.metadata = metadata;
+  }
+
+  const issues = validateCurves(data);
+  if (issues.length > 0) {
+    throw new Error(`Invalid curves: ${formatValidationIssues(issues)}`);
+  }
+  return data;
+}
+
+/**
+ * Serialize curves to JSON with the format version, interpolation and
+ * optional pencil tables and metadata. Points are sorted first; invalid
+ * points throw.
+ */
+export function serializeCurves(
+  points: Partial<ChannelPoints>,
+  options: SerializeCurvesOptions = {}
+): string {
+  return JSON.stringify(buildCurvesData(points, options));
+}
+
+/**
+ * Read curves written by serializeCurves (JSON text or the parsed object),
+ * migrating older versions. Invalid data throws with every problem found.
+ */
+export function deserializeCurves(
+  input: unknown,
+  options: DeserializeCurvesOptions = {}
+): CurvesDocument {
+  let data = input;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch (error) {
+      throw new Error(`Invalid curves JSON: ${(error as Error).message}`);
+    }
+  }
+
+  const migrated = migrateCurves(data, options.migrations);
+  const issues = validateCurves(migrated);
+  if (issues.length > 0) {
+    throw new Error(`Invalid curves: ${formatValidationIssues(issues)}`);
+  }
+
+  const document: CurvesDocument = {
+    version: migrated.version as number,
+    interpolation: migrated.interpolation as string,
+    points: migrated.points as ChannelPoints,
+  };
+  if (migrated.tables) {
+    const tables: ChannelTables = {};
+    for (const [channel, table] of Object.entries(
+      migrated.tables as Record<string, number[]>
+    )) {
+      tables[channel] = Uint8Array.from(table);
+    }
+    document.tables = tables;
+  }
+  if (migrated.metadata) {
+    document.metadata = migrated.metadata as Record<string, unknown>;
+  }
+  return document;
+}
+
+/**
+ * Base64url without padding, safe in query strings and URL fragments
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): Uint8Array {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  let binary: string;
+  try {
+    binary = atob(base64 + '==='.slice((base64.length + 3) % 4));
+  } catch {
+    throw new Error('Invalid curves encoding: not base64url');
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Channels left out of encoded curves while they are the identity line,
+ * and filled back in on decode
+ */
+const IMPLIED_CHANNELS = ['master', 'red', 'green', 'blue'];
+
+// Bits of the per-point flags byte in the packed encoding
+const POINT_HANDLE_IN = 4;
+const POINT_HANDLE_OUT = 8;
+
+function isIdentityLine(list: CurvePoint[]): boolean {
+  return (
+    list.length === 2 &&
+    list.every(
+      (p, i) =>
+        p.x === i * 255 &&
+        p.y === i * 255 &&
+        p.type === undefined &&
+        p.handleIn === undefined &&
+        p.handleOut === undefined
+    )
+  );
+}
+
+interface PackedWriter {
+  byte: (value: number) => void;
+  int16: (value: number, path: string) => void;
+  text: (value: string) => void;
+  raw: (values: ArrayLike<number>) => void;
+  toBytes: () => Uint8Array;
+}
+
+interface PackedReader {
+  remaining: () => number;
+  byte: () => number;
+  int16: () => number;
+  text: () => string;
+  raw: (length: number) => Uint8Array;
+}
+
+/**
+ * Byte writer for the packed encoding
+ */
+function createPackedWriter(): PackedWriter {
+  const bytes: number[] = [];
+
+  const byte = (value: number) => {
+    bytes.push(value & 0xff);
+  };
+
+  const raw = (values: ArrayLike<number>) => {
+    for (let i = 0; i < values.length; i++) byte(values[i]);
+  };
+
+  return {
+    byte,
+    raw,
+    int16: (value, path) => {
+      const rounded = Math.round(value);
+      if (rounded < -32768 || rounded > 32767) {
+        throw new Error(
+          `Cannot encode curves: ${path} ${value} is out of range`
+        );
+      }
+      byte(rounded >> 8);
+      byte(rounded);
+    },
+    text: (value) => {
+      const encoded = new TextEncoder().encode(value);
+      if (encoded.length > 255) {
+        throw new Error(
+          `Cannot encode curves: "${value.slice(0, 20)}..." is longer than 255 bytes`
+        );
+      }
+      byte(encoded.length);
+      raw(encoded);
+    },
+    toBytes: () => Uint8Array.from(bytes),
+  };
+}
+
+/**
+ * Byte reader for the packed encoding; running past the end throws
+ */
+function createPackedReader(bytes: Uint8Array): PackedReader {
+  let offset = 0;
+
+  const raw = (length: number): Uint8Array => {
+    if (offset + length > bytes.length) {
+      throw new Error('Invalid curves encoding: data ends early');
+    }
+    const values = bytes.slice(offset, offset + length);
+    offset += length;
+    return values;
+  };
+
+  const byte = (): number => raw(1)[0];
+
+  return {
+    remaining: () => bytes.length - offset,
+    byte,
+    raw,
+    int16: () => {
+      const value = (byte() << 8) | byte();
+      return value >= 0x8000 ? value - 0x10000 : value;
+    },
+    text: () => new TextDecoder().decode(raw(byte())),
+  };
+}
+
+/**
+ * Pack one channel's points: whole 0-255 levels, with point types and
+ * bezier handles only when some point has them
+ */
+function packPoints(
+  writer: PackedWriter,
+  channel: string,
+  list: CurvePoint[]
+): void {
+  if (list.length > 255) {
+    throw new Error(
+      `Cannot encode curves: points.${channel} has more than 255 points`
+    );
+  }
+  const levels = list.map(({ x, y }) => ({
+    x: Math.round(x),
+    y: Math.round(y),
+  }));
+  for (let i = 1; i < levels.length; i++) {
+    if (levels[i].x === levels[i - 1].x) {
+      throw new Error(
+        `Cannot encode curves: points.${channel}[${i - 1}] and [${i}] round to the same x ${levels[i].x}`
+      );
+    }
+  }
+  const extras = list.some(
+    (p) => p.type !== undefined || p.handleIn || p.handleOut
+  );
+
+  writer.text(channel);
+  writer.byte(list.length);
+  writer.byte(extras ? 1 : 0);
+  levels.forEach(({ x, y }) => writer.raw([x, y]));
+  if (!extras) return;
+
+  list.forEach((p, i) => {
+    const path = `points.${channel}[${i}]`;
+    writer.byte(
+      (p.type ? POINT_TYPES.indexOf(p.type) + 1 : 0) |
+        (p.handleIn ? POINT_HANDLE_IN : 0) |
+        (p.handleOut ? POINT_HANDLE_OUT : 0)
+    );
+    if (p.handleIn) {
+      writer.int16(p.handleIn.x, `${path}.handleIn.x`);
+      writer.int16(p.handleIn.y, `${path}.handleIn.y`);
+    }
+    if (p.handleOut) {
+      writer.int16(p.handleOut.x, `${path}.handleOut.x`);
+      writer.int16(p.handleOut.y, `${path}.handleOut.y`);
+    }
+  });
+}
+
+function unpackPoints(reader: PackedReader): CurvePoint[] {
+  const count = reader.byte();
+  const extras = reader.byte() === 1;
+  const list: CurvePoint[] = [];
+  for (let i = 0; i < count; i++) {
+    list.push({ x: reader.byte(), y: reader.byte() });
+  }
+  if (!extras) return list;
+
+  for (const point of list) {
+    const flags = reader.byte();
+    const type = POINT_TYPES[(flags & 3) - 1];
+    if (type) point.type = type as PointType;
+    if (flags & POINT_HANDLE_IN) {
+      point.handleIn = { x: reader.int16(), y: reader.int16() };
+    }
+    if (flags & POINT_HANDLE_OUT) {
+      point.handleOut = { x: reader.int16(), y: reader.int16() };
+    }
+  }
+  return list;
+}
+
+/**
+ * Encode curves as a short base64url string for share links. The curves
+ * are packed as bytes: coordinates are rounded to whole 0-255 levels
+ * (bezier handles too), and master/red/green/blue are left out while they
+ * are the identity line. Throws for data serializeCurves would reject and
+ * for points that collide once rounded.
+ */
+export function encodeCurves(
+  points: Partial<ChannelPoints>,
+  options: SerializeCurvesOptions = {}
+): string {
+  const data = buildCurvesData(points, options);
+  const sorted = data.points as Partial<ChannelPoints>;
+  const tables = (data.tables ?? {}) as Record<string, number[]>;
+
+  const writer = createPackedWriter();
+  writer.byte(CURVES_FORMAT_VERSION);
+  // 'monotone' is the common case, so it is written as an empty name
+  const interpolation = data.interpolation as string;
+  writer.text(interpolation === 'monotone' ? '' : interpolation);
+
+  const channels = Object.entries(sorted).filter(
+    (entry): entry is [string, CurvePoint[]] =>
+      entry[1] !== undefined &&
+      !(IMPLIED_CHANNELS.includes(entry[0]) && isIdentityLine(entry[1]))
+  );
+  writer.byte(channels.length);
+  channels.forEach(([channel, list]) => packPoints(writer, channel, list));
+
+  const tableEntries = Object.entries(tables);
+  writer.byte(tableEntries.length);
+  tableEntries.forEach(([channel, table]) => {
+    writer.text(channel);
+    writer.raw(table);
+  });
+
+  // Metadata takes the rest of the data, as JSON
+  if (data.metadata !== undefined) {
+    writer.raw(new TextEncoder().encode(JSON.stringify(data.metadata)));
+  }
+  return toBase64Url(writer.toBytes());
+}
+
+/**
+ * Read curves from an encodeCurves string. Channels left out as identity
+ * lines come back as such.
+ */
+export function decodeCurves(
+  encoded: string,
+  options: DeserializeCurvesOptions = {}
+): CurvesDocument {
+  const reader = createPackedReader(fromBase64Url(encoded.trim()));
+  const version = reader.byte();
+  const interpolation = reader.text() || 'monotone';
+
+  const points: Record<string, CurvePoint[]> = {};
+  for (const channel of IMPLIED_CHANNELS) {
+    points[channel] = getDefaultPoints();
+  }
+  const channelCount = reader.byte();
+  for (let i = 0; i < channelCount; i++) {
+    const channel = reader.text();
+    points[channel] = unpackPoints(reader);
+  }
+
+  const data: Record<string, unknown> = { version, interpolation, points };
+  const tableCount = reader.byte();
+  if (tableCount > 0) {
+    const tables: Record<string, number[]> = {};
+    for (let i = 0; i < tableCount; i++) {
+      const channel = reader.text();
+      tables[channel] = Array.from(reader.raw(256));
+    }
+    data.tables = tables;
+  }
+
+  if (reader.remaining() > 0) {
+    const json = new TextDecoder().decode(reader.raw(reader.remaining()));
+    try {
+      data.metadata = JSON.parse(json);
+    } catch (error) {
+      throw new Error(
+        `Invalid curves encoding: bad metadata (${(error as Error).message})`
+      );
+    }
+  }
+
+  return deserializeCurves(data, options);
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  generateSVGFilter,
+  getSVGFilterTables,
+  getSVGFilterURL,
+} from './svgFilter';
+import {
+  ALPHA_CHANNEL,
+  DEFAULT_CHANNELS,
+  LUMINANCE_CHANNEL,
+  generateLUT,
+  getDefaultChannelPoints,
+} from './curve';
+
+const identity = generateLUT(getDefaultChannelPoints());
+const invert = Uint8Array.from({ length: 256 }, (_, i) => 255 - i);
+
+describe('getSVGFilterTables', () => {
+  it('folds master into the R/G/B tables', () => {
+    const tables = getSVGFilterTables({ master: invert });
+    for (const values of [tables.red, tables.green, tables.blue]) {
+      const list = values.split(' ');
+      expect(list).toHaveLength(256);
+      expect(list[0]).toBe('1.0000');
+      expect(list[255]).toBe('0.0000');
+    }
+    expect(tables.alpha).toBeUndefined();
+  });
+
+  it('adds an alpha table for alpha curves', () => {
+    const channels = [...DEFAULT_CHANNELS, ALPHA_CHANNEL];
+    const tables = getSVGFilterTables({ [ALPHA_CHANNEL.id]: invert }, channels);
+    expect(tables.alpha?.split(' ')[0]).toBe('1.0000');
+    expect(tables.red.split(' ')[0]).toBe('0.0000');
+  });
+
+  it('throws for curves feComponentTransfer cannot express', () => {
+    const channels = [...DEFAULT_CHANNELS, LUMINANCE_CHANNEL];
+    expect(() =>
+      getSVGFilterTables({ [LUMINANCE_CHANNEL.id]: invert }, channels)
+    ).toThrow('SVG filters cannot apply luminance or HSL curves');
+  });
+});
+
+describe('generateSVGFilter', () => {
+  it('writes one feFunc per component', () => {
+    const markup = generateSVGFilter(identity, 'grade');
+    expect(markup).toContain('<filter id="grade"');
+    expect(markup.match(/<feFunc[RGB] /g)).toHaveLength(3);
+    expect(markup).not.toContain('feFuncA');
+  });
+
+  it('writes feFuncA for an alpha curve', () => {
+    const channels = [...DEFAULT_CHANNELS, ALPHA_CHANNEL];
+    const markup = generateSVGFilter(
+      { [ALPHA_CHANNEL.id]: invert },
+      'fade',
+      channels
+    );
+    expect(markup).toContain('<feFuncA type="table"');
+  });
+
+  it('rejects ids that would need escaping, like getSVGFilterURL', () => {
+    for (const id of ['a"b', 'x)y', '1st', 'has space', '']) {
+      expect(() => generateSVGFilter(identity, id)).toThrow(
+        'Invalid filter id'
+      );
+      expect(() => getSVGFilterURL(id)).toThrow('Invalid filter id');
+    }
+    expect(getSVGFilterURL('grade_1-a')).toBe('url(#grade_1-a)');
+  });
+});
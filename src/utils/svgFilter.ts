@@ -0,0 +1,96 @@
+import { ChannelDefinition, PartialLUTData, SVGFilterTables } from '../types';
+import { DEFAULT_CHANNELS } from './curve';
+import { getUnfoldableChannels, precomposeLUT } from './image';
+
+/**
+ * Format a table as feFunc `tableValues` (0-1)
+ */
+function formatTableValues(table: Uint8Array): string {
+  const values: string[] = new Array(256);
+  for (let i = 0; i < 256; i++) {
+    values[i] = (table[i] / 255).toFixed(4);
+  }
+  return values.join(' ');
+}
+
+/**
+ * Filter ids are limited to characters that need no escaping in markup or
+ * in CSS `url(#id)`
+ */
+const FILTER_ID_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+/**
+ * Throw unless the id can be used as-is in filter markup and CSS
+ */
+function checkFilterId(id: string): void {
+  if (!FILTER_ID_PATTERN.test(id)) {
+    throw new Error(
+      `Invalid filter id "${id}": use letters, digits, '_' and '-', starting with a letter or '_'`
+    );
+  }
+}
+
+/**
+ * CSS `filter` value referencing the filter with the given id
+ */
+export function getSVGFilterURL(id: string): string {
+  checkFilterId(id);
+  return `url(#${id})`;
+}
+
+/**
+ * Build `tableValues` strings for feFuncR/G/B (and feFuncA when an alpha
+ * curve is present) from a LUT, with master and other per-component curves
+ * folded in (see precomposeLUT). Channels the LUT has no table for are left
+ * unchanged.
+ * With 256 entries, input i/255 maps exactly onto entry i.
+ *
+ * feComponentTransfer works on each component alone, so luminance and HSL
+ * curves cannot be expressed and throw.
+ */
+export function getSVGFilterTables(
+  lut: PartialLUTData,
+  channels: readonly ChannelDefinition[] = DEFAULT_CHANNELS
+): SVGFilterTables {
+  const unfoldable = getUnfoldableChannels(lut, channels);
+  if (unfoldable.length > 0) {
+    const labels = unfoldable.map(({ label }) => label).join(', ');
+    throw new Error(
+      `SVG filters cannot apply luminance or HSL curves (${labels}); use applyLUTToImageData instead`
+    );
+  }
+
+  const { red, green, blue, alpha } = precomposeLUT(lut, channels);
+  const tables: SVGFilterTables = {
+    red: formatTableValues(red),
+    green: formatTableValues(green),
+    blue: formatTableValues(blue),
+  };
+  if (alpha) tables.alpha = formatTableValues(alpha);
+  return tables;
+}
+
+/**
+ * Generate an SVG `<filter>` element (as markup) that applies the LUT with
+ * feComponentTransfer. Reference it from CSS with `filter: url(#id)` (see
+ * getSVGFilterURL). Throws for ids that would need escaping.
+ */
+export function generateSVGFilter(
+  lut: PartialLUTData,
+  id: string,
+  channels: readonly ChannelDefinition[] = DEFAULT_CHANNELS
+): string {
+  checkFilterId(id);
+  const tables = getSVGFilterTables(lut, channels);
+  const alpha = tables.alpha
+    ? `\n    <feFuncA type="table" tableValues="${tables.alpha}" />`
+    : '';
+
+  return `<filter id="${id}" color-interpolation-filters="sRGB">
+  <feComponentTransfer>
+    <feFuncR type="table" tableValues="${tables.red}" />
+    <feFuncG type="table" tableValues="${tables.green}" />
+    <feFuncB type="table" tableValues="${tables.blue}" />${alpha}
+  </feComponentTransfer>
+</filter>`;
+}
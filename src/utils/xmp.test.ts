@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { parseXMPToneCurves, serializeXMPToneCurves } from './xmp';
+
+const diagonal = [
+  { x: 0, y: 0 },
+  { x: 255, y: 255 },
+];
+
+const points = {
+  master: [
+    { x: 0, y: 10 },
+    { x: 128, y: 135 },
+    { x: 255, y: 250 },
+  ],
+  red: [
+    { x: 0, y: 0 },
+    { x: 90, y: 100 },
+    { x: 255, y: 255 },
+  ],
+  green: diagonal,
+  blue: [
+    { x: 0, y: 20 },
+    { x: 255, y: 235 },
+  ],
+};
+
+describe('serializeXMPToneCurves / parseXMPToneCurves', () => {
+  it('round-trips channel points', () => {
+    expect(parseXMPToneCurves(serializeXMPToneCurves(points))).toEqual(points);
+  });
+
+  it('escapes the preset name and group', () => {
+    const xmp = serializeXMPToneCurves(points, {
+      name: 'Fade <soft> & "warm"',
+      group: 'Mine',
+      uuid: 'ABC',
+    });
+    expect(xmp).toContain('Fade &lt;soft&gt; &amp; &quot;warm&quot;');
+    expect(xmp).toContain('crs:UUID="ABC"');
+    expect(xmp).toContain('<crs:Group>');
+  });
+
+  it('reads PV2010 curves and keeps the diagonal for missing channels', () => {
+    const xmp = `<x:xmpmeta><rdf:RDF><rdf:Description>
+   <crs:ToneCurve>
+    <rdf:Seq>
+     <rdf:li>0, 0</rdf:li>
+     <rdf:li>64, 80</rdf:li>
+     <rdf:li>255, 255</rdf:li>
+    </rdf:Seq>
+   </crs:ToneCurve>
+  </rdf:Description></rdf:RDF></x:xmpmeta>`;
+
+    const parsed = parseXMPToneCurves(xmp);
+    expect(parsed.master).toEqual([
+      { x: 0, y: 0 },
+      { x: 64, y: 80 },
+      { x: 255, y: 255 },
+    ]);
+    expect(parsed.red).toEqual(diagonal);
+  });
+
+  it('does not mistake the red curve for the master curve', () => {
+    const xmp = serializeXMPToneCurves({ red: points.red });
+    const parsed = parseXMPToneCurves(xmp);
+    expect(parsed.master).toEqual(diagonal);
+    expect(parsed.red).toEqual(points.red);
+  });
+});
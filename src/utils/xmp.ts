@@ -0,0 +1,178 @@
+import { ChannelPoints, CurvePoint, XMPExportOptions } from '../types';
+import { clamp, getDefaultPoints, sortPoints } from './curve';
+
+/**
+ * Camera Raw tone curve names per channel. PV2012 is current; PV2010 only
+ * had a single (master) curve named `ToneCurve`.
+ */
+const XMP_CURVE_NAMES = {
+  master: ['ToneCurvePV2012', 'ToneCurve'],
+  red: ['ToneCurvePV2012Red', 'ToneCurveRed'],
+  green: ['ToneCurvePV2012Green', 'ToneCurveGreen'],
+  blue: ['ToneCurvePV2012Blue', 'ToneCurveBlue'],
+} as const;
+
+/**
+ * Extract the `<rdf:li>` values of a named `crs:` sequence
+ */
+function findSequence(xmp: string, name: string): string[] | null {
+  // The closing `>` (or whitespace) keeps ToneCurvePV2012 from matching ToneCurvePV2012Red
+  const pattern = new RegExp(
+    `<crs:${name}(?:\\s[^>]*)?>([\\s\\S]*?)</crs:${name}>`
+  );
+  const match = xmp.match(pattern);
+  if (!match) return null;
+
+  const items: string[] = [];
+  const itemPattern = /<rdf:li(?:\s[^>]*)?>([^<]*)<\/rdf:li>/g;
+  let item: RegExpExecArray | null;
+  while ((item = itemPattern.exec(match[1])) !== null) {
+    items.push(item[1]);
+  }
+  return items;
+}
+
+/**
+ * Parse "x, y" sequence entries into curve points
+ */
+function parseSequencePoints(items: string[]): CurvePoint[] {
+  const points: CurvePoint[] = [];
+  for (const item of items) {
+    const [x, y] = item.split(',').map((v) => Number(v.trim()));
+    if (Number.isFinite(x) && Number.isFinite(y)) {
+      points.push({ x: clamp(x, 0, 255), y: clamp(y, 0, 255) });
+    }
+  }
+  return sortPoints(points);
+}
+
+/**
+ * Parse tone curves from an XMP sidecar or `.xmp` preset. Reads the
+ * PV2012 curves and falls back to the older PV2010 `ToneCurve` naming;
+ * channels that are absent keep the diagonal.
+ */
+export function parseXMPToneCurves(xmp: string): ChannelPoints {
+  const result = {} as ChannelPoints;
+
+  (Object.keys(XMP_CURVE_NAMES) as (keyof typeof XMP_CURVE_NAMES)[]).forEach(
+    (channel) => {
+      let points: CurvePoint[] | null = null;
+      for (const name of XMP_CURVE_NAMES[channel]) {
+        const items = findSequence(xmp, name);
+        if (items) {
+          points = parseSequencePoints(items);
+          break;
+        }
+      }
+      result[channel] = points && points.length >= 2 ? points : getDefaultPoints();
+    }
+  );
+
+  return result;
+}
+
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Generate an uppercase 32-digit hex UUID, as Lightroom writes them
+ */
+function generatePresetUUID(): string {
+  let uuid = '';
+  for (let i = 0; i < 32; i++) {
+    uuid += Math.floor(Math.random() * 16).toString(16);
+  }
+  return uuid.toUpperCase();
+}
+
+function formatSequence(name: string, points: CurvePoint[]): string {
+  const items = sortPoints(points)
+    .map(
+      (p) =>
+        `     <rdf:li>${clamp(Math.round(p.x), 0, 255)}, ${clamp(
+          Math.round(p.y),
+          0,
+          255
+        )}</rdf:li>`
+    )
+    .join('\n');
+
+  return `   <crs:${name}>
+    <rdf:Seq>
+${items}
+    </rdf:Seq>
+   </crs:${name}>`;
+}
+
+/**
+ * Serialize channel points as a standalone Lightroom / Camera Raw `.xmp`
+ * preset containing only the PV2012 tone curves
+ */
+export function serializeXMPToneCurves(
+  points: Partial<ChannelPoints>,
+  options: XMPExportOptions = {}
+): string {
+  const {
+    name = 'RGB Curve',
+    group = '',
+    uuid = generatePresetUUID(),
+    processVersion = '11.0',
+  } = options;
+
+  const curves = (
+    Object.keys(XMP_CURVE_NAMES) as (keyof typeof XMP_CURVE_NAMES)[]
+  )
+    .map((channel) =>
+      formatSequence(
+        XMP_CURVE_NAMES[channel][0],
+        points[channel] || getDefaultPoints()
+      )
+    )
+    .join('\n');
+
+  const groupBlock = group
+    ? `
+   <crs:Group>
+    <rdf:Alt>
+     <rdf:li xml:lang="x-default">${escapeXML(group)}</rdf:li>
+    </rdf:Alt>
+   </crs:Group>`
+    : '';
+
+  return `<x:xmpmeta xmlns:x="adobe:ns:meta/" x:xmptk="Adobe XMP Core 7.0-c000">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:crs="http://ns.adobe.com/camera-raw-settings/1.0/"
+   crs:PresetType="Normal"
+   crs:Cluster=""
+   crs:UUID="${escapeXML(uuid)}"
+   crs:SupportsAmount="False"
+   crs:SupportsColor="True"
+   crs:SupportsMonochrome="True"
+   crs:SupportsHighDynamicRange="True"
+   crs:SupportsNormalDynamicRange="True"
+   crs:SupportsSceneReferred="True"
+   crs:SupportsOutputReferred="True"
+   crs:CameraModelRestriction=""
+   crs:Copyright=""
+   crs:ContactInfo=""
+   crs:Version="14.0"
+   crs:ProcessVersion="${escapeXML(processVersion)}"
+   crs:ToneCurveName2012="Custom"
+   crs:HasSettings="True">
+   <crs:Name>
+    <rdf:Alt>
+     <rdf:li xml:lang="x-default">${escapeXML(name)}</rdf:li>
+    </rdf:Alt>
+   </crs:Name>${groupBlock}
+${curves}
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+`;
+}